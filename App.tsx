@@ -1,29 +1,43 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { GameState, Role, TrapType, GRAVITY, JUMP_FORCE, MOVE_SPEED, MAX_FALL_SPEED, LEVEL_LENGTH, AppScreen, ChatMessage, ConnectionMode, NetworkMessage } from './types';
-import { generateLevel } from './services/geminiService';
+import { GameState, GameStart, Hello, LevelData, Point, ResumeRequest, ResumeState, Role, Series, TrapAction, TrapRejection, TrapType, RunnerInput, SIM_TICK_MS, MAX_RUNNERS, AppScreen, ChatMessage, ConnectionMode, NetworkMessage } from './types';
+import { generateLevel, hasGemini } from './services/geminiService';
+import { LevelParams, randomLevelParams } from './services/levelGen';
+import { INITIAL_GAME_STATE, createGameState, step } from './services/simulation';
+import { randomSeed } from './services/rng';
+import { SnapshotReceiver, SnapshotSender } from './services/stateSync';
+import { snapshotLane } from './services/snapshot';
+import { RunnerPredictor } from './services/prediction';
+import { LinkMonitor, LinkStats, PING_INTERVAL_MS } from './services/linkMonitor';
 import { LocalNetwork, UDPNetwork, NetworkAdapter } from './services/p2p';
+import { HELLO, PROTOCOL_VERSION } from './services/protocol';
+import { NetSimConfig, SimulatedNetwork } from './services/netSim';
+import { TimelineEvent, TrapFeedEntry, feedTrap, rejectTrap, timelineEvents } from './services/spectator';
+import { createSeries, mergeSeries, recordRound, roundResultOf } from './services/series';
 import { RunnerView } from './components/RunnerView';
 import { TrapperView } from './components/TrapperView';
+import { SpectatorView } from './components/SpectatorView';
 import { LobbyView } from './components/LobbyView';
 import { ConnectionSetup } from './components/ConnectionSetup';
-
-const INITIAL_GAME_STATE: GameState = {
-  isPlaying: false,
-  gameStatus: 'IDLE',
-  level: [],
-  player: {
-    x: 100,
-    y: 300,
-    vx: 0,
-    vy: 0,
-    isGrounded: false,
-    isDead: false,
-    controlsReversed: false,
-    reverseTimer: 0,
-  },
-  revives: 3,
-  timeElapsed: 0,
-  levelLength: LEVEL_LENGTH,
+import { NetSimPanel } from './components/NetSimPanel';
+
+// Lobby heartbeats go out every 2 s; a runner missing a couple has left
+const RIVAL_TIMEOUT_MS = 5000;
+
+// The level a run's state was built on, for a receiver joining it midway
+const levelOf = (state: GameState): LevelData => ({
+  platforms: state.level,
+  hazards: state.hazards,
+  checkpoints: state.checkpoints,
+  pickups: state.pickups,
+  length: state.levelLength,
+});
+
+// `lanes` with `state` in `lane`, padded with nulls for lanes not heard from yet
+const withLane = <T,>(lanes: (T | null)[], lane: number, state: T): (T | null)[] => {
+  const next = [...lanes];
+  while (next.length <= lane) next.push(null);
+  next[lane] = state;
+  return next;
 };
 
 const App: React.FC = () => {
@@ -38,9 +52,72 @@ const App: React.FC = () => {
   // Networking/Lobby State
   const [isOpponentConnected, setIsOpponentConnected] = useState(false);
   const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
+  const [lastRejection, setLastRejection] = useState<TrapRejection | null>(null);
+  const [linkStats, setLinkStats] = useState<LinkStats | null>(null);
+  const [showNetStats, setShowNetStats] = useState(false);
+  const [isRunPaused, setIsRunPaused] = useState(false);
+  const [isResuming, setIsResuming] = useState(false);
+  // Set when the opponent runs an incompatible build; nothing but hellos gets through then
+  const [protocolError, setProtocolError] = useState<string | null>(null);
+  // Debug: fake network conditions for the next session (null = off)
+  const [netSim, setNetSim] = useState<NetSimConfig | null>(null);
+  // Spectator: what the trapper tried and how the run went
+  const [trapFeed, setTrapFeed] = useState<TrapFeedEntry[]>([]);
+  const [timeline, setTimeline] = useState<TimelineEvent[]>([]);
+  // Races: every runner's run, by lane (see GameStart), and the one the
+  // trapper or spectator is looking at
+  const [lanes, setLanes] = useState<(GameState | null)[]>([]);
+  const [focusLane, setFocusLane] = useState(0);
+  // Runner: how many other runners in the lobby would join a race
+  const [rivalCount, setRivalCount] = useState(0);
+  // Series: the tally (null outside one), and the length the runner picked in the lobby
+  const [series, setSeries] = useState<Series | null>(null);
+  const [seriesRounds, setSeriesRounds] = useState(1);
+  // Runner: the next level. Kept between runs, so a good one can be played again.
+  const [levelParams, setLevelParams] = useState<LevelParams>(() => randomLevelParams());
+  const [useGemini, setUseGemini] = useState(false);
   
   // Network Service
   const networkRef = useRef<NetworkAdapter | null>(null);
+  // The UDP adapter itself, for the setup screen, even when networkRef wraps it
+  const udpNetworkRef = useRef<UDPNetwork | null>(null);
+  const snapshotSenderRef = useRef<SnapshotSender | null>(null);
+  // One per lane we don't play ourselves
+  const snapshotReceiversRef = useRef<(SnapshotReceiver | null)[]>([]);
+  const lanesRef = useRef<(GameState | null)[]>([]);
+  // Runner: our lane in the current run
+  const laneRef = useRef(0);
+  // Runner: other runners heard in the lobby (client ID -> when)
+  const rivalsRef = useRef(new Map<string, number>());
+  // Picked once per app; race line-ups refer to runners by it
+  const clientIdRef = useRef(Math.random().toString(36).slice(2, 10));
+  // The player opposite us in the lobby; a series is played against them
+  const opponentIdRef = useRef<string | null>(null);
+  const seriesRef = useRef<Series | null>(null);
+  // Runner: revives spent this run, for the series score
+  const revivesUsedRef = useRef(0);
+  // Runner in match server mode: predicts locally, the server has the last word
+  const predictorRef = useRef<RunnerPredictor | null>(null);
+  const linkMonitorRef = useRef<LinkMonitor | null>(null);
+  // Identifies the current run so a trapper that dropped out can rejoin it
+  const sessionIdRef = useRef<string | null>(null);
+  // Trapper: reconnecting, and whether the resume request went out yet
+  const resumePendingRef = useRef(false);
+  const resumeRequestedRef = useRef(false);
+  // Lanes whose runner still owes us a RESUME_STATE
+  const resumeLanesRef = useRef(new Set<number>());
+  const peerMismatchRef = useRef(false);
+  // Spectator: when we last asked to be caught up on a run already going
+  const watchRequestedAtRef = useRef(-Infinity);
+  // The network listener outlives the render it was created in, so it reads these instead
+  const roleRef = useRef<Role>(role);
+  const screenRef = useRef<AppScreen>(screen);
+  const focusLaneRef = useRef(focusLane);
+  roleRef.current = role;
+  screenRef.current = screen;
+  focusLaneRef.current = focusLane;
+
+  const hello: Hello = { ...HELLO, clientId: clientIdRef.current };
   
   // Input Refs for Runner
   const keysPressed = useRef<Set<string>>(new Set());
@@ -48,7 +125,10 @@ const App: React.FC = () => {
   // Game Loop Refs
   const requestRef = useRef<number>(0);
   const lastTimeRef = useRef<number>(0);
+  const accumulatorRef = useRef<number>(0);
   const stateRef = useRef<GameState>(INITIAL_GAME_STATE);
+  // Traps received since the last simulation tick, applied at the start of the next one
+  const pendingTrapsRef = useRef<TrapAction[]>([]);
 
   // --- NETWORKING SETUP ---
   useEffect(() => {
@@ -56,44 +136,174 @@ const App: React.FC = () => {
     if (screen === 'MENU') {
         networkRef.current?.disconnect();
         networkRef.current = null;
+        udpNetworkRef.current = null;
+        predictorRef.current = null;
+        snapshotReceiversRef.current = [];
+        lanesRef.current = [];
+        setLanes([]);
+        rivalsRef.current.clear();
+        setRivalCount(0);
+        opponentIdRef.current = null;
+        seriesRef.current = null;
+        setSeries(null);
+        linkMonitorRef.current = null;
+        sessionIdRef.current = null;
+        resumePendingRef.current = false;
+        setIsResuming(false);
+        setIsRunPaused(false);
+        setLinkStats(null);
         setIsOpponentConnected(false);
         setChatHistory([]);
+        peerMismatchRef.current = false;
+        setProtocolError(null);
     }
   }, [screen]);
 
+  // Both builds must speak the same protocol version before anything else is trusted
+  const checkHello = (hello: Hello | undefined): boolean => {
+    const version = hello?.protocolVersion;
+    peerMismatchRef.current = version !== PROTOCOL_VERSION;
+    if (peerMismatchRef.current) {
+      setIsOpponentConnected(false);
+      setProtocolError(
+        `Opponent runs protocol v${version ?? '0'}, this build v${PROTOCOL_VERSION}. Both players need the same version of the game.`
+      );
+      return false;
+    }
+    setProtocolError(null);
+    return true;
+  };
+
+  // Runner: the other runners that have been in the lobby lately
+  const activeRivals = (now: number): string[] =>
+    [...rivalsRef.current].filter(([, heardAt]) => now - heardAt < RIVAL_TIMEOUT_MS).map(([clientId]) => clientId);
+
+  const noteRival = (clientId: string | undefined, now: number) => {
+    if (!clientId || clientId === clientIdRef.current) return;
+    rivalsRef.current.set(clientId, now);
+    setRivalCount(activeRivals(now).length);
+  };
+
   const setupNetworkListeners = (adapter: NetworkAdapter) => {
+      const monitor = new LinkMonitor(adapter, performance.now());
+      linkMonitorRef.current = monitor;
+
       adapter.onMessage((data: NetworkMessage) => {
+        // Spectators only watch; all the players owe them is a catch-up
+        if (data.role === 'SPECTATOR' && roleRef.current !== 'SPECTATOR') {
+          if (data.type === 'WATCH_REQUEST' && roleRef.current === 'RUNNER') handleWatchRequest(adapter);
+          return;
+        }
+        const isSpectator = roleRef.current === 'SPECTATOR';
+        monitor.noteReceived(performance.now());
+        if (peerMismatchRef.current && data.type !== 'JOIN_LOBBY' && data.type !== 'ACK_JOIN') return;
+        // The first thing heard after reconnecting means the link is back up
+        if (resumePendingRef.current && !resumeRequestedRef.current) {
+          resumeRequestedRef.current = true;
+          const request: ResumeRequest = { sessionId: sessionIdRef.current! };
+          adapter.send({ type: 'RESUME_REQUEST', payload: request });
+        }
         switch (data.type) {
             case 'PING':
                setIsOpponentConnected(true);
-               // Reply to ping to ensure both sides know
-               adapter.send({ type: 'ACK_JOIN' });
+               if (isSpectator) break;
+               if (data.payload) {
+                 monitor.handlePing(data.payload);
+               } else {
+                 // Data channel wake-up: reply to ensure both sides know
+                 adapter.send({ type: 'ACK_JOIN', payload: hello });
+               }
+               break;
+            case 'PONG':
+               monitor.handlePong(data.payload, performance.now());
                break;
             case 'JOIN_LOBBY':
-              if (screen === 'LOBBY' || screen === 'CONNECTION') {
-                 setIsOpponentConnected(true);
-                 adapter.send({ type: 'ACK_JOIN' });
+              if (screenRef.current === 'LOBBY' || screenRef.current === 'CONNECTION') {
+                 // Answer either way so the other side can show the mismatch too
+                 if (!isSpectator) adapter.send({ type: 'ACK_JOIN', payload: hello });
+                 if (checkHello(data.payload)) setIsOpponentConnected(true);
+                 if (data.role === 'RUNNER' && roleRef.current === 'RUNNER') noteRival(data.payload?.clientId, performance.now());
+                 else if (data.role && data.role !== 'SPECTATOR' && !isSpectator) opponentIdRef.current = data.payload?.clientId ?? null;
               }
               break;
             case 'ACK_JOIN':
-               setIsOpponentConnected(true);
+               if (checkHello(data.payload)) setIsOpponentConnected(true);
               break;
             case 'CHAT_MSG':
               setChatHistory(prev => [...prev, data.payload]);
               break;
             case 'START_GAME':
-              if (role === 'TRAPPER') {
-                startRemoteGame(data.payload);
+              if (data.payload.series && !isSpectator) {
+                // A series round: whoever starts it runs, so we trap
+                switchRole('TRAPPER');
+                startRemoteGame(adapter, data.payload);
+              } else if (roleRef.current === 'TRAPPER' || isSpectator) {
+                startRemoteGame(adapter, data.payload);
+              } else if (adapter.type === 'MATCH_SERVER') {
+                // Our own request, back from the server with the seed to predict from
+                startPredictedGame(adapter, data.payload);
+              } else if (screenRef.current === 'LOBBY' && data.payload.runners?.includes(clientIdRef.current)) {
+                // Another runner started a race with us in it
+                startRun(adapter, data.payload);
               }
               break;
-            case 'STATE_UPDATE':
-              if (role === 'TRAPPER') {
-                 setGameState(data.payload);
+            case 'SNAPSHOT': {
+              if (predictorRef.current) {
+                predictorRef.current.handleSnapshot(data.payload);
+                break;
               }
+              const lane = snapshotLane(data.payload);
+              const receiver = lane === null ? null : snapshotReceiversRef.current[lane];
+              if (receiver) receiver.handleSnapshot(data.payload, performance.now());
+              // A run is going that we never saw start
+              else if (isSpectator && lane !== null) requestWatch(adapter);
+              break;
+            }
+            case 'SNAPSHOT_ACK':
+              snapshotSenderRef.current?.handleAck(data.payload);
+              break;
+            case 'LEVEL_UPDATE':
+              predictorRef.current?.handleLevelUpdate(data.payload);
+              snapshotReceiversRef.current[data.payload.lane ?? 0]?.handleLevelUpdate(data.payload);
               break;
             case 'TRAP_TRIGGER':
-              if (role === 'RUNNER') {
-                handleTrapTrigger(data.payload);
+              if (roleRef.current === 'RUNNER') {
+                // In a race, only the traps meant for us
+                if ((data.payload.lane ?? 0) === laneRef.current) handleTrapTrigger(data.payload);
+              } else if (isSpectator) {
+                const { payload } = data;
+                setTrapFeed(prev => feedTrap(prev, payload, stateRef.current.timeElapsed));
+              }
+              break;
+            case 'TRAP_REJECTED':
+              if (roleRef.current === 'TRAPPER') {
+                setLastRejection(data.payload);
+              } else if (isSpectator) {
+                const { payload } = data;
+                setTrapFeed(prev => rejectTrap(prev, payload));
+              }
+              break;
+            case 'ROUND_RESULT':
+              adoptSeries(data.payload);
+              break;
+            case 'RESUME_REQUEST':
+              if (roleRef.current === 'RUNNER') {
+                handleResumeRequest(adapter, data.payload);
+              }
+              break;
+            case 'RESUME_STATE':
+              if (roleRef.current === 'TRAPPER') {
+                handleResumeState(adapter, data.payload);
+              } else if (isSpectator) {
+                handleWatchState(adapter, data.payload);
+              }
+              break;
+            case 'RESUME_REJECTED':
+              if (roleRef.current === 'TRAPPER' && resumePendingRef.current) {
+                // The run we were in is over; nothing to go back to
+                resumePendingRef.current = false;
+                setIsResuming(false);
+                setScreen('LOBBY');
               }
               break;
           }
@@ -104,15 +314,44 @@ const App: React.FC = () => {
   useEffect(() => {
     if ((screen === 'LOBBY' || screen === 'GAME') && role && networkRef.current) {
       // Announce self
-      networkRef.current.send({ type: 'JOIN_LOBBY', role });
+      networkRef.current.send({ type: 'JOIN_LOBBY', role, payload: hello });
       
       const interval = setInterval(() => {
-        networkRef.current?.send({ type: 'JOIN_LOBBY', role });
+        networkRef.current?.send({ type: 'JOIN_LOBBY', role, payload: hello });
       }, 2000);
       return () => clearInterval(interval);
     }
   }, [screen, role]);
 
+  // Link telemetry: ping the opponent, notice when they go quiet, refresh the overlay
+  useEffect(() => {
+    if (screen !== 'LOBBY' && screen !== 'GAME') return;
+
+    const interval = setInterval(() => {
+      const monitor = linkMonitorRef.current;
+      if (!monitor) return;
+      const now = performance.now();
+      // Spectators only listen; the players' heartbeats tell them the link is up
+      if (role !== 'SPECTATOR') monitor.tick(now);
+      if (monitor.isTimedOut(now)) setIsOpponentConnected(false);
+      setLinkStats(monitor.getStats(now));
+      if (role === 'RUNNER') setRivalCount(activeRivals(now).length);
+    }, PING_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [screen, role]);
+
+  // --- NET STATS OVERLAY (F3) ---
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'F3') return;
+      e.preventDefault();
+      setShowNetStats(prev => !prev);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   // --- INPUT LISTENERS (RUNNER) ---
   useEffect(() => {
     if (role !== 'RUNNER' || screen !== 'GAME') return;
@@ -129,23 +368,66 @@ const App: React.FC = () => {
     };
   }, [role, screen]);
 
+  // --- PLAYOUT LOOP ---
+  // Snapshots arrive unevenly; draw from the jitter buffers at display rate
+  // instead. The trapper and spectators show the focused lane, a runner its
+  // own (from the game loop) with the others as ghosts.
+  useEffect(() => {
+    if (!role || screen !== 'GAME') return;
+
+    let frame = 0;
+    const render = (time: number) => {
+      const prev = lanesRef.current;
+      const next = prev.map((state, lane) => snapshotReceiversRef.current[lane]?.sample(time) ?? state);
+      if (role === 'RUNNER') {
+        next[laneRef.current] = stateRef.current;
+      } else {
+        if (role === 'SPECTATOR') {
+          const events = next.flatMap((state, lane) => {
+            const before = prev[lane];
+            return state && before ? timelineEvents(before, state, lane) : [];
+          });
+          if (events.length > 0) setTimeline(prevEvents => [...prevEvents, ...events]);
+        }
+        const focused = next[focusLaneRef.current];
+        if (focused) {
+          stateRef.current = focused;
+          setGameState(focused);
+        }
+      }
+      lanesRef.current = next;
+      setLanes(next);
+      frame = requestAnimationFrame(render);
+    };
+    frame = requestAnimationFrame(render);
+
+    return () => cancelAnimationFrame(frame);
+  }, [role, screen]);
+
   // --- ACTIONS ---
 
+  const withNetSim = (adapter: NetworkAdapter): NetworkAdapter =>
+    netSim ? new SimulatedNetwork(adapter, netSim) : adapter;
+
   const handleModeSelect = (selectedRole: Role, mode: ConnectionMode) => {
     setRole(selectedRole);
     setConnectionMode(mode);
 
     if (mode === 'LOCAL') {
-        const adapter = new LocalNetwork();
+        const adapter = withNetSim(new LocalNetwork());
         adapter.connect(selectedRole);
         setupNetworkListeners(adapter);
         networkRef.current = adapter;
         setScreen('LOBBY');
     } else if (mode === 'UDP_P2P') {
         // We delay connection until the Setup screen for UDP
-        const adapter = new UDPNetwork();
+        const udp = new UDPNetwork();
+        // The lobby shows when a direct link ends up relayed, or in a match server room
+        udp.onTypeChange(setConnectionMode);
+        const adapter = withNetSim(udp);
         setupNetworkListeners(adapter);
         networkRef.current = adapter;
+        udpNetworkRef.current = udp;
         setScreen('CONNECTION');
     }
   };
@@ -166,197 +448,342 @@ const App: React.FC = () => {
     networkRef.current?.send({ type: 'CHAT_MSG', payload: msg });
   };
 
-  // Shared Game Start Action (Runner or Trapper Force Start)
-  const initiateGame = async () => {
+  // Roles change hands between series rounds without leaving the room. The
+  // adapters keep the role they connected with, which only matters for
+  // rejoining the room, where any player seat will do.
+  const switchRole = (next: Role) => {
+    roleRef.current = next;
+    setRole(next);
+  };
+
+  // Series: keep whichever tally knows more (see mergeSeries)
+  const adoptSeries = (incoming: Series | null) => {
+    const next = incoming && mergeSeries(seriesRef.current, incoming);
+    seriesRef.current = next;
+    setSeries(next);
+  };
+
+  // Shared Game Start Action (Runner or Trapper Force Start). `continuing`
+  // is the series whose next round we start, and therefore run.
+  const initiateGame = async (continuing?: Series) => {
+    const adapter = networkRef.current;
+    const isMatchServer = adapter?.type === 'MATCH_SERVER';
     setIsLoading(true);
-    const generatedLevel = await generateLevel();
+    const generatedLevel = await generateLevel(levelParams, useGemini && !isMatchServer);
     setIsLoading(false);
 
-    const newGame: GameState = {
-      ...INITIAL_GAME_STATE,
-      isPlaying: true,
-      gameStatus: 'PLAYING',
+    const sessionId = Math.random().toString(36).slice(2, 10);
+
+    // The match server runs the game: it builds the level from its code and
+    // answers both players with START_GAME
+    if (isMatchServer) {
+      adapter.send({ type: 'START_GAME', payload: { sessionId, level: generatedLevel } });
+      return;
+    }
+
+    // Other runners in the lobby race us; the one starting it takes lane 0
+    const isRunner = roleRef.current === 'RUNNER';
+    const rivals = isRunner && !continuing ? activeRivals(performance.now()).sort().slice(0, MAX_RUNNERS - 1) : [];
+    // From the lobby, a series is against whoever is opposite us, and we run first
+    const opponentId = opponentIdRef.current;
+    const series = continuing ?? (isRunner && rivals.length === 0 && seriesRounds > 1 && isOpponentConnected && opponentId
+      ? createSeries(seriesRounds, [clientIdRef.current, opponentId])
+      : undefined);
+    const start: GameStart = {
+      sessionId,
       level: generatedLevel,
+      seed: randomSeed(),
+      runners: rivals.length > 0 ? [clientIdRef.current, ...rivals] : undefined,
+      series,
     };
-    
-    stateRef.current = newGame;
-    setGameState(newGame);
-    setScreen('GAME');
 
     // Notify other player if connected
-    networkRef.current?.send({
+    adapter?.send({
       type: 'START_GAME',
-      payload: generatedLevel
+      payload: start
     });
 
-    // Start Loop (Only if Runner - Trapper receives state updates)
-    if (role === 'RUNNER') {
-      lastTimeRef.current = performance.now();
-      requestRef.current = requestAnimationFrame(gameLoop);
-    }
+    if (continuing) switchRole('RUNNER');
+    if (roleRef.current === 'RUNNER') startRun(adapter, start);
+    else if (adapter) startRemoteGame(adapter, start);
   };
 
-  // Trapper Action (Triggered via network)
-  const startRemoteGame = (levelData: any[]) => {
-    const newGame: GameState = {
-      ...INITIAL_GAME_STATE,
-      isPlaying: true,
-      gameStatus: 'PLAYING',
-      level: levelData,
-    };
+  // Series: our turn to run the next round
+  const startNextRound = () => {
+    if (isLoading || !seriesRef.current) return;
+    initiateGame(seriesRef.current);
+  };
+
+  // Receivers for every lane but our own. The trapper and the other runners
+  // ack (each under their client ID); spectators decode along.
+  const openLanes = (adapter: NetworkAdapter | null, start: GameStart, ownLane: number | null) => {
+    const count = start.runners?.length ?? 1;
+    const initial = createGameState(start.level, start.seed ?? 0);
+    const sendAcks = roleRef.current !== 'SPECTATOR';
+    snapshotReceiversRef.current = Array.from({ length: count }, (_, lane) =>
+      adapter && lane !== ownLane ? new SnapshotReceiver(adapter, start.level, sendAcks, lane, clientIdRef.current) : null
+    );
+    lanesRef.current = Array.from({ length: count }, () => initial);
+    setLanes(lanesRef.current);
+    setFocusLane(0);
+  };
+
+  // Runner: play our lane of the run. Every lane starts from the same seed.
+  const startRun = (adapter: NetworkAdapter | null, start: GameStart) => {
+    const lane = start.runners ? start.runners.indexOf(clientIdRef.current) : 0;
+    const newGame = createGameState(start.level, start.seed ?? randomSeed());
+    laneRef.current = lane;
+    sessionIdRef.current = start.sessionId;
+    predictorRef.current = null;
+    stateRef.current = newGame;
+    pendingTrapsRef.current = [];
+    revivesUsedRef.current = 0;
+    adoptSeries(start.series ?? null);
     setGameState(newGame);
+    snapshotSenderRef.current = adapter ? new SnapshotSender(adapter, newGame, lane) : null;
+    openLanes(adapter, start, lane);
     setScreen('GAME');
-  };
 
-  const handleTrapTrigger = (trapType: TrapType) => {
-    const currentState = stateRef.current;
-    if (currentState.gameStatus !== 'PLAYING') return;
-
-    let newState = { ...currentState };
-    const p = { ...newState.player };
-
-    switch (trapType) {
-      case TrapType.BOMB:
-        p.vx = (Math.random() > 0.5 ? 12 : -12);
-        p.vy = -12;
-        p.isGrounded = false;
-        break;
-      case TrapType.CRACK:
-        const platformUnder = newState.level.find(plat => 
-           p.x + 20 > plat.x && 
-           p.x + 10 < plat.x + plat.width &&
-           p.y + 50 >= plat.y && p.y + 50 <= plat.y + 10
-        );
-        if (platformUnder) {
-            newState.level = newState.level.filter(pl => pl.id !== platformUnder.id);
-        }
-        break;
-      case TrapType.REVERSE:
-        p.controlsReversed = true;
-        p.reverseTimer = 3000;
-        break;
-    }
+    lastTimeRef.current = performance.now();
+    accumulatorRef.current = 0;
+    requestRef.current = requestAnimationFrame(gameLoop);
+  };
 
-    newState.player = p;
-    stateRef.current = newState;
+  // Trapper Action (Triggered via network)
+  const startRemoteGame = (adapter: NetworkAdapter, start: GameStart) => {
+    const state = createGameState(start.level, start.seed ?? 0);
+    sessionIdRef.current = start.sessionId;
+    // We may have run the previous series round
+    snapshotSenderRef.current = null;
+    adoptSeries(start.series ?? null);
+    // The trapper's acks drive the deltas; spectators decode against them
+    openLanes(adapter, start, null);
+    stateRef.current = state;
+    setGameState(state);
+    setTrapFeed([]);
+    setTimeline([]);
+    setScreen('GAME');
   };
 
-  const gameLoop = (time: number) => {
-    if (!lastTimeRef.current) lastTimeRef.current = time;
-    const deltaTime = Math.min((time - lastTimeRef.current), 50);
-    lastTimeRef.current = time;
+  // Runner, match server mode: same run as the server, predicted from its seed
+  const startPredictedGame = (adapter: NetworkAdapter, start: GameStart) => {
+    const predictor = new RunnerPredictor(adapter, start);
+    predictorRef.current = predictor;
+    sessionIdRef.current = start.sessionId;
+    snapshotSenderRef.current = null;
+    adoptSeries(null);
+    laneRef.current = 0;
+    openLanes(adapter, start, 0);
+    stateRef.current = predictor.state;
+    setGameState(predictor.state);
+    setScreen('GAME');
 
-    updatePhysics(deltaTime);
-    
-    networkRef.current?.send({
-        type: 'STATE_UPDATE',
-        payload: stateRef.current
-    });
+    lastTimeRef.current = performance.now();
+    accumulatorRef.current = 0;
+    requestRef.current = requestAnimationFrame(gameLoop);
+  };
 
-    setGameState(stateRef.current);
-    
-    if (stateRef.current.gameStatus === 'PLAYING') {
-        requestRef.current = requestAnimationFrame(gameLoop);
+  // Trapper: bring the dropped link back up and ask to rejoin the run
+  const handleReconnect = async () => {
+    const adapter = networkRef.current;
+    if (!adapter || !sessionIdRef.current || resumePendingRef.current) return;
+
+    resumePendingRef.current = true;
+    resumeRequestedRef.current = false;
+    resumeLanesRef.current = new Set(lanesRef.current.keys());
+    setIsResuming(true);
+    try {
+      await adapter.reconnect();
+    } catch (e) {
+      console.warn('[NET] Reconnect failed', e);
+      resumePendingRef.current = false;
+      setIsResuming(false);
     }
   };
 
-  const updatePhysics = (dt: number) => {
-    const state = stateRef.current;
-    const player = { ...state.player };
-    let { x, y, vx, vy, isGrounded } = player;
+  // Runner: a trapper that lost the link wants back in. Send it everything.
+  const handleResumeRequest = (adapter: NetworkAdapter, request: ResumeRequest) => {
+    if (screenRef.current !== 'GAME' || request.sessionId !== sessionIdRef.current) {
+      adapter.send({ type: 'RESUME_REJECTED', payload: request });
+      return;
+    }
+    const resume: ResumeState = { sessionId: request.sessionId, state: stateRef.current, lane: laneRef.current };
+    adapter.send({ type: 'RESUME_STATE', payload: resume });
+    // Snapshot history is meaningless to the rejoined trapper; start deltas over
+    snapshotSenderRef.current?.restartDeltas();
+    // The run may have ended while they were away, taking the round result with it
+    if (seriesRef.current) adapter.send({ type: 'ROUND_RESULT', payload: seriesRef.current });
+    setIsOpponentConnected(true);
+  };
 
-    // Controls
-    let moveDir = 0;
-    if (keysPressed.current.has('ArrowLeft')) moveDir -= 1;
-    if (keysPressed.current.has('ArrowRight')) moveDir += 1;
+  // Runner: a spectator came in mid-run. Same full state as a resume; they
+  // pick up the broadcast from the next keyframe.
+  const handleWatchRequest = (adapter: NetworkAdapter) => {
+    if (screenRef.current !== 'GAME' || !sessionIdRef.current || predictorRef.current) return;
+    const resume: ResumeState = { sessionId: sessionIdRef.current, state: stateRef.current, lane: laneRef.current };
+    adapter.send({ type: 'RESUME_STATE', payload: resume });
+    snapshotSenderRef.current?.restartDeltas();
+  };
 
-    if (player.controlsReversed) {
-        moveDir *= -1;
-        player.reverseTimer -= dt;
-        if (player.reverseTimer <= 0) player.controlsReversed = false;
-    }
+  // Spectator: ask to be caught up, at most once per heartbeat
+  const requestWatch = (adapter: NetworkAdapter) => {
+    const now = performance.now();
+    if (now - watchRequestedAtRef.current < 2000) return;
+    watchRequestedAtRef.current = now;
+    adapter.send({ type: 'WATCH_REQUEST', role: 'SPECTATOR', payload: undefined });
+  };
 
-    vx = moveDir * MOVE_SPEED;
+  // Trapper: full resync from a runner. In a race each runner answers for
+  // their own lane; the first answer means the link is back.
+  const handleResumeState = (adapter: NetworkAdapter, resume: ResumeState) => {
+    const lane = resume.lane ?? 0;
+    if (!resumeLanesRef.current.has(lane) || resume.sessionId !== sessionIdRef.current) return;
+    const { state } = resume;
+
+    resumeLanesRef.current.delete(lane);
+    resumePendingRef.current = false;
+    setIsResuming(false);
+    snapshotReceiversRef.current[lane] = new SnapshotReceiver(adapter, levelOf(state), true, lane, clientIdRef.current);
+    lanesRef.current = withLane(lanesRef.current, lane, state);
+    if (lane === focusLaneRef.current) setGameState(state);
+    setIsOpponentConnected(true);
+  };
 
-    if (keysPressed.current.has('Space') && isGrounded) {
-      vy = JUMP_FORCE;
-      isGrounded = false;
+  // Spectator: full state of a run already going, one lane per runner. Also
+  // goes out to every spectator when the trapper resumes; the ones already
+  // watching keep going.
+  const handleWatchState = (adapter: NetworkAdapter, resume: ResumeState) => {
+    const lane = resume.lane ?? 0;
+    const isSameRun = resume.sessionId === sessionIdRef.current;
+    if (isSameRun && snapshotReceiversRef.current[lane]) return;
+    const { state } = resume;
+
+    if (!isSameRun) {
+      sessionIdRef.current = resume.sessionId;
+      snapshotReceiversRef.current = [];
+      lanesRef.current = [];
+      setTrapFeed([]);
+      setTimeline([]);
     }
+    snapshotReceiversRef.current = withLane(snapshotReceiversRef.current, lane, new SnapshotReceiver(adapter, levelOf(state), false, lane));
+    lanesRef.current = withLane(lanesRef.current, lane, state);
+    setLanes(lanesRef.current);
+    if (!isSameRun || !lanesRef.current[focusLaneRef.current]) {
+      focusOn(lane);
+      stateRef.current = state;
+      setGameState(state);
+    }
+    setScreen('GAME');
+  };
+
+  // Trapper, spectator: whose run to show (and, for the trapper, to trap)
+  const focusOn = (lane: number) => {
+    focusLaneRef.current = lane;
+    setFocusLane(lane);
+  };
 
-    // Physics
-    vy += GRAVITY;
-    vy = Math.min(vy, MAX_FALL_SPEED);
+  const handleTrapTrigger = (action: TrapAction) => {
+    if (stateRef.current.gameStatus !== 'PLAYING') return;
+    pendingTrapsRef.current.push(action);
+  };
 
-    let nextX = x + vx;
-    let nextY = y + vy;
-    
-    // Collision
-    isGrounded = false;
-    if (vy >= 0) {
-        for (const plat of state.level) {
-            if (nextX + 30 > plat.x && nextX < plat.x + plat.width) {
-                const feetY = y + 48;
-                const nextFeetY = nextY + 48;
-                
-                if (feetY <= plat.y && nextFeetY >= plat.y) {
-                    nextY = plat.y - 48;
-                    vy = 0;
-                    isGrounded = true;
-                    break;
-                }
-            }
-        }
+  const readInput = (): RunnerInput => ({
+    left: keysPressed.current.has('ArrowLeft'),
+    right: keysPressed.current.has('ArrowRight'),
+    jump: keysPressed.current.has('Space'),
+    dash: keysPressed.current.has('ShiftLeft') || keysPressed.current.has('KeyX'),
+    shield: keysPressed.current.has('KeyC'),
+  });
+
+  // The runner is the authority on traps: tell the trapper which requests were refused
+  const reportSimEvents = (state: GameState) => {
+    for (const event of state.events) {
+      if (event.kind === 'TRAP_REJECTED') {
+        const { trapId, trapType, reason } = event;
+        networkRef.current?.send({ type: 'TRAP_REJECTED', payload: { trapId, trapType, reason } });
+      }
     }
+  };
 
-    player.x = nextX;
-    player.y = nextY;
-    player.vx = vx;
-    player.vy = vy;
-    player.isGrounded = isGrounded;
-
-    // Win/Loss
-    if (player.x >= state.levelLength) {
-        stateRef.current = { ...state, player, gameStatus: 'WON', isPlaying: false };
-        return;
+  const gameLoop = (time: number) => {
+    // Hold the run while a trapper that was playing can't be reached
+    const sender = snapshotSenderRef.current;
+    const linkDown = !!sender?.hasPeer() && !!linkMonitorRef.current?.isTimedOut(time);
+    setIsRunPaused(linkDown);
+    if (linkDown) {
+      lastTimeRef.current = time;
+      accumulatorRef.current = 0;
+      requestRef.current = requestAnimationFrame(gameLoop);
+      return;
     }
 
-    if (player.y > 800) {
-        if (state.revives > 0) {
-            const safePlat = state.level
-                .filter(p => p.x < player.x && p.x > 0)
-                .sort((a, b) => b.x - a.x)[0] || state.level[0];
-            
-            player.x = safePlat.x;
-            player.y = safePlat.y - 60;
-            player.vx = 0;
-            player.vy = 0;
-            stateRef.current = { 
-                ...state, 
-                player, 
-                revives: state.revives - 1 
-            };
-        } else {
-            stateRef.current = { ...state, player, gameStatus: 'LOST', isPlaying: false };
-        }
-        return;
+    if (!lastTimeRef.current) lastTimeRef.current = time;
+    // Clamp long frames (tab switch, breakpoint) so we don't spiral trying to catch up
+    accumulatorRef.current += Math.min(time - lastTimeRef.current, 250);
+    lastTimeRef.current = time;
+
+    // Run the simulation at a fixed rate regardless of the display refresh rate
+    const predictor = predictorRef.current;
+    while (accumulatorRef.current >= SIM_TICK_MS) {
+      if (predictor) {
+        predictor.step(readInput());
+      } else {
+        const traps = pendingTrapsRef.current;
+        const revives = stateRef.current.revives;
+        pendingTrapsRef.current = [];
+        stateRef.current = step(stateRef.current, readInput(), traps);
+        if (stateRef.current.revives < revives) revivesUsedRef.current++;
+        reportSimEvents(stateRef.current);
+      }
+      accumulatorRef.current -= SIM_TICK_MS;
+    }
+    if (predictor) {
+      predictor.flush();
+      stateRef.current = predictor.state;
+    }
+    
+    setGameState(stateRef.current);
+    
+    // With a match server the run is over when the server says so
+    const status = predictor ? predictor.confirmedStatus() : stateRef.current.gameStatus;
+    if (status === 'PLAYING') {
+        sender?.update(stateRef.current, time);
+        requestRef.current = requestAnimationFrame(gameLoop);
+    } else {
+        // Make sure the trapper sees how the run ended
+        sender?.flush(stateRef.current, time);
+        if (!predictor) finishRound(stateRef.current);
     }
+  };
 
-    stateRef.current = {
-        ...state,
-        player,
-        timeElapsed: state.timeElapsed + (dt / 1000)
-    };
+  // Runner: our series round is over. The runner has the last word on how it
+  // went; the opponent adopts the tally as sent.
+  const finishRound = (state: GameState) => {
+    const current = seriesRef.current;
+    if (!current) return;
+    const next = recordRound(current, roundResultOf(current, state, revivesUsedRef.current));
+    adoptSeries(next);
+    networkRef.current?.send({ type: 'ROUND_RESULT', payload: next });
   };
 
-  const sendTrap = (type: TrapType) => {
+  const sendTrap = (type: TrapType, position?: Point) => {
+      const action: TrapAction = {
+          id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+          type,
+          timestamp: Date.now(),
+          position,
+          lane: focusLaneRef.current,
+      };
       networkRef.current?.send({
           type: 'TRAP_TRIGGER',
-          payload: type
+          payload: action
       });
   };
 
   // --- RENDER ---
 
+  const netStats = showNetStats ? linkStats : null;
+
   if (screen === 'MENU') {
     return (
         <div className="flex h-screen items-center justify-center bg-cave-900 font-mono text-ui-text">
@@ -382,6 +809,12 @@ const App: React.FC = () => {
                         >
                             Join (Trapper)
                         </button>
+                        <button 
+                            onClick={() => handleModeSelect('SPECTATOR', 'LOCAL')}
+                            className="flex-1 bg-cave-900 border border-cave-light/30 hover:border-cave-light hover:text-white py-2 text-[10px] uppercase transition-colors"
+                        >
+                            Watch
+                        </button>
                      </div>
 
                      <p className="text-xs text-cave-light mb-3 font-bold uppercase border-b border-cave-700 pb-1">2. Network Play (UDP via LAN)</p>
@@ -398,20 +831,28 @@ const App: React.FC = () => {
                         >
                              Join (Trapper)
                         </button>
+                        <button 
+                            onClick={() => handleModeSelect('SPECTATOR', 'UDP_P2P')}
+                            className="flex-1 bg-cave-900 border border-cave-light/30 hover:border-cave-light hover:text-white py-2 text-[10px] uppercase transition-colors"
+                        >
+                            Watch
+                        </button>
                      </div>
                    </div>
                 </div>
+
+                <NetSimPanel config={netSim} onChange={setNetSim} />
             </div>
         </div>
     );
   }
 
-  if (screen === 'CONNECTION' && role && networkRef.current) {
+  if (screen === 'CONNECTION' && role && udpNetworkRef.current) {
       return (
           <ConnectionSetup 
             role={role} 
             mode={connectionMode}
-            network={networkRef.current as UDPNetwork}
+            network={udpNetworkRef.current}
             onConnected={handleRemoteConnected}
             onBack={() => setScreen('MENU')}
           />
@@ -425,17 +866,75 @@ const App: React.FC = () => {
         connectionMode={connectionMode}
         chatHistory={chatHistory}
         onSendMessage={handleSendMessage}
-        onStartGame={initiateGame}
+        onStartGame={() => initiateGame()}
         isOpponentConnected={isOpponentConnected}
+        rivalCount={rivalCount}
+        seriesRounds={seriesRounds}
+        onSeriesRounds={setSeriesRounds}
+        levelParams={levelParams}
+        onLevelParams={setLevelParams}
+        useGemini={useGemini}
+        onUseGemini={hasGemini() && connectionMode !== 'MATCH_SERVER' ? setUseGemini : undefined}
+        protocolError={protocolError}
         isLoading={isLoading}
+        netStats={netStats}
         onBack={() => setScreen('MENU')}
       />
     );
   }
 
   if (screen === 'GAME') {
-    if (role === 'RUNNER') return <RunnerView gameState={gameState} onBack={() => setScreen('MENU')} />;
-    if (role === 'TRAPPER') return <TrapperView gameState={gameState} sendTrap={sendTrap} onBack={() => setScreen('MENU')} />;
+    if (role === 'RUNNER') return (
+      <RunnerView
+        gameState={gameState}
+        syncStats={snapshotSenderRef.current?.getStats()}
+        predictionStats={predictorRef.current?.getStats()}
+        netStats={netStats}
+        isPaused={isRunPaused}
+        lanes={lanes}
+        lane={laneRef.current}
+        series={series}
+        ownId={clientIdRef.current}
+        onNextRound={startNextRound}
+        onLobby={() => setScreen('LOBBY')}
+        onBack={() => setScreen('MENU')}
+      />
+    );
+    if (role === 'TRAPPER') return (
+      <TrapperView
+        gameState={gameState}
+        sendTrap={sendTrap}
+        lastRejection={lastRejection}
+        netStats={netStats}
+        playoutDelay={snapshotReceiversRef.current[focusLane]?.getBufferStats().delay}
+        isLinkDown={!isOpponentConnected}
+        isResuming={isResuming}
+        onReconnect={handleReconnect}
+        lanes={lanes}
+        focusLane={focusLane}
+        onFocusLane={focusOn}
+        series={series}
+        ownId={clientIdRef.current}
+        onNextRound={startNextRound}
+        onLobby={() => setScreen('LOBBY')}
+        onBack={() => setScreen('MENU')}
+      />
+    );
+    if (role === 'SPECTATOR') return (
+      <SpectatorView
+        gameState={gameState}
+        trapFeed={trapFeed}
+        timeline={timeline}
+        netStats={netStats}
+        playoutDelay={snapshotReceiversRef.current[focusLane]?.getBufferStats().delay}
+        isLinkDown={!isOpponentConnected}
+        lanes={lanes}
+        focusLane={focusLane}
+        onFocusLane={focusOn}
+        series={series}
+        onBack={() => setScreen('MENU')}
+      />
+    );
   }
 
   return null;
@@ -1,6 +1,8 @@
-import React, { useState, useEffect } from 'react';
-import { Role, ConnectionMode } from '../types';
-import { UDPNetwork } from '../services/p2p';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Role, ConnectionMode, RoomError, RoomErrorReason } from '../types';
+import { UDPNetwork, parseIceServers, formatIceServers } from '../services/p2p';
+import { ManualSignaling } from '../services/signaling';
+import { QrCode, QrScanner, canScanQr } from './QrCode';
 
 interface ConnectionSetupProps {
   role: Role;
@@ -10,46 +12,161 @@ interface ConnectionSetupProps {
   onBack: () => void;
 }
 
+// SERVER: rooms on `node server.js`. MANUAL: no server, offer and answer are
+// carried between the screens by the players (text or QR code). Spectators
+// always come in through a room: there's no one to hand them a blob.
+type SignalingMethod = 'SERVER' | 'MANUAL';
+
+const ROOM_ERROR_TEXT: Record<RoomErrorReason, string> = {
+  NOT_FOUND: 'No room with that code.',
+  FULL: 'That room is full.',
+  UNAVAILABLE: 'This server cannot run matches (build it with npm run build:server).',
+};
+
 export const ConnectionSetup: React.FC<ConnectionSetupProps> = ({ role, mode, network, onConnected, onBack }) => {
   const [serverIp, setServerIp] = useState<string>('localhost');
   const [status, setStatus] = useState<string>('Standby');
   const [isConnecting, setIsConnecting] = useState(false);
+  const [roomCode, setRoomCode] = useState('');
+  const [hostedCode, setHostedCode] = useState<string | null>(null);
+  // Runner: have the room server run the match instead of this machine
+  const [authoritative, setAuthoritative] = useState(false);
+  const [method, setMethod] = useState<SignalingMethod>('SERVER');
+  const manualRef = useRef<ManualSignaling | null>(null);
+  const [localBlob, setLocalBlob] = useState<string | null>(null);
+  const [remoteBlob, setRemoteBlob] = useState('');
+  const [isScanning, setIsScanning] = useState(false);
+  const [iceText, setIceText] = useState(() => formatIceServers(network.getIceServers()));
+  const [showIce, setShowIce] = useState(false);
 
   useEffect(() => {
     // Listen for the UDP channel opening (which triggers PING/JOIN_LOBBY)
-    network.onMessage((msg) => {
+    return network.onMessage((msg) => {
         if (msg.type === 'PING' || msg.type === 'JOIN_LOBBY' || msg.type === 'ACK_JOIN') {
             onConnected();
         }
     });
   }, [network, onConnected]);
 
+  // A runner with a code joins someone else's room to race them
+  const isHosting = role === 'RUNNER' && !roomCode.trim();
+
   const handleConnect = async () => {
       if (isConnecting) return;
+      if (role !== 'RUNNER' && !roomCode.trim()) {
+          setStatus('Error: Enter the room code shown on the host screen.');
+          return;
+      }
       setIsConnecting(true);
       setStatus(`Contacting Signaling Server at ${serverIp}...`);
+      network.setIceServers(parseIceServers(iceText));
 
       try {
           // This connects TCP first, then auto-negotiates UDP
           await network.connect(role, serverIp);
-          setStatus('Signaling Connected. Negotiating UDP Link...');
-          
-          // The UDP negotiation happens automatically in the background class.
-          // We just wait for the 'open' event in the network class which will allow messages to flow.
-          
-          // Timeout fallback
-          setTimeout(() => {
-              if (status.includes('Negotiating')) {
-                  setStatus('Negotiating... (Ensure other player is connected)');
-              }
-          }, 5000);
-
       } catch (e) {
           setIsConnecting(false);
           setStatus('Error: Could not reach Signaling Server (TCP).');
+          return;
+      }
+
+      try {
+          if (isHosting) {
+              const code = await network.createRoom(authoritative);
+              setHostedCode(code);
+              setStatus(network.type === 'MATCH_SERVER'
+                  ? 'Room open, the server runs the match. Waiting for the trapper to join...'
+                  : 'Room open. Waiting for the trapper to join...');
+          } else {
+              setStatus(`Joining room ${roomCode.toUpperCase()}...`);
+              await network.joinRoom(roomCode);
+              // The UDP negotiation happens automatically in the background class.
+              // We just wait for the 'open' event in the network class which will allow messages to flow.
+              setStatus(role !== 'TRAPPER'
+                  ? 'Room joined. Linking to the players...'
+                  : 'Room joined. Negotiating UDP Link (TCP relay if it fails)...');
+          }
+      } catch (e) {
+          network.disconnect();
+          setIsConnecting(false);
+          setStatus(`Error: ${ROOM_ERROR_TEXT[(e as RoomError).reason] ?? 'Could not join room.'}`);
+      }
+  };
+
+  // Runner: make the offer. Trapper: take the host's offer and make the answer.
+  const handleManualStart = async (offer?: string) => {
+      if (isConnecting) return;
+      const signaling = new ManualSignaling();
+      manualRef.current = signaling;
+      signaling.onBlob((blob) => {
+          setLocalBlob(blob);
+          setStatus(role === 'RUNNER'
+              ? 'Give this offer to the trapper, then paste their answer below.'
+              : 'Give this answer to the host. The link opens once they enter it.');
+      });
+      setIsConnecting(true);
+      setStatus('Gathering network candidates...');
+      network.setIceServers(parseIceServers(iceText));
+
+      await network.connectWith(role, signaling);
+      network.beginHandshake();
+      if (offer === undefined) return;
+
+      let error: string | null;
+      try {
+          const kind = await signaling.accept(offer);
+          error = kind === 'SIGNAL_OFFER' ? null
+              : kind ? "Error: That's an answer. Paste the host's offer." : 'Error: Not a link code.';
+      } catch (e) {
+          error = 'Error: Could not use that offer.';
+      }
+      if (error) {
+          network.disconnect();
+          manualRef.current = null;
+          setIsConnecting(false);
+          setStatus(error);
       }
   };
 
+  const handleManualAnswer = async (answer: string) => {
+      const signaling = manualRef.current;
+      if (!signaling) return;
+      try {
+          const kind = await signaling.accept(answer);
+          if (kind === 'SIGNAL_ANSWER') {
+              setStatus('Answer accepted. Negotiating UDP Link...');
+          } else {
+              setStatus(kind ? "Error: That's your own offer. Paste the trapper's answer." : 'Error: Not a link code.');
+          }
+      } catch (e) {
+          setStatus('Error: Could not use that answer.');
+      }
+  };
+
+  const handleRemoteBlob = (blob: string) => {
+      if (role === 'RUNNER') handleManualAnswer(blob);
+      else handleManualStart(blob);
+  };
+
+  const handleScan = useCallback((text: string) => {
+      setIsScanning(false);
+      setRemoteBlob(text);
+  }, []);
+
+  const handleScanError = useCallback((message: string) => {
+      setIsScanning(false);
+      setStatus(`Error: ${message}`);
+  }, []);
+
+  const switchMethod = (next: SignalingMethod) => {
+      if (isConnecting) return;
+      setMethod(next);
+      setStatus('Standby');
+  };
+
+  // The trapper pastes first; the runner only once its offer is out
+  const canPaste = role === 'TRAPPER' ? !isConnecting : localBlob !== null;
+
   return (
     <div className="min-h-screen bg-cave-900 flex items-center justify-center p-4 font-mono">
       <div className="max-w-md w-full bg-black border-2 border-cave-700 shadow-2xl p-8 relative">
@@ -57,15 +174,35 @@ export const ConnectionSetup: React.FC<ConnectionSetupProps> = ({ role, mode, ne
         
         <h2 className="text-3xl font-bold text-ui-accent mb-2">UDP LINK SETUP</h2>
         <div className="text-xs text-cave-light mb-8 border-b border-cave-800 pb-4">
-            PROTOCOL: UNRELIABLE DATA CHANNEL (UDP) // ROLE: {role}
+            PROTOCOL: UDP GAME STATE + RELIABLE EVENTS{method === 'SERVER' && ' (TCP RELAY FALLBACK)'} // ROLE: {role}
+        </div>
+
+        {role !== 'SPECTATOR' && (
+        <div className="flex gap-2 mb-6 text-xs">
+            {(['SERVER', 'MANUAL'] as SignalingMethod[]).map(m => (
+                <button
+                    key={m}
+                    onClick={() => switchMethod(m)}
+                    disabled={isConnecting}
+                    className={`flex-1 py-1 border ${method === m ? 'border-ui-accent text-white' : 'border-cave-700 text-cave-light hover:text-white'}`}
+                >
+                    {m === 'SERVER' ? 'ROOM SERVER' : 'NO SERVER (MANUAL)'}
+                </button>
+            ))}
         </div>
+        )}
 
+        {method === 'SERVER' ? (
         <div className="space-y-6">
              <div>
                  <p className="text-white text-sm mb-2">SIGNALING SERVER IP</p>
                  <p className="text-[10px] text-cave-light mb-4">
                      Enter the IP of the machine running `node server.js`.<br/>
-                     This sets up the direct UDP connection.
+                     {role === 'RUNNER'
+                        ? 'Hosting opens a room; give its code to the trapper. To race another runner, enter the code of their room instead.'
+                        : role === 'SPECTATOR'
+                            ? 'Then enter the code of the room to watch.'
+                            : 'Then enter the room code shown on the host screen.'}
                  </p>
                  <div className="flex gap-2">
                     <input 
@@ -73,8 +210,20 @@ export const ConnectionSetup: React.FC<ConnectionSetupProps> = ({ role, mode, ne
                         value={serverIp}
                         onChange={(e) => setServerIp(e.target.value)}
                         placeholder="192.168.1.X"
+                        disabled={isConnecting}
                         className="flex-1 bg-cave-900 border border-cave-light/30 text-white px-4 py-2 text-sm focus:border-ui-accent outline-none"
                     />
+                    {!hostedCode && (
+                        <input
+                            type="text"
+                            value={roomCode}
+                            onChange={(e) => setRoomCode(e.target.value.toUpperCase())}
+                            placeholder={role === 'RUNNER' ? 'RACE' : 'CODE'}
+                            maxLength={4}
+                            disabled={isConnecting}
+                            className="w-20 bg-cave-900 border border-cave-light/30 text-white px-2 py-2 text-sm text-center tracking-widest focus:border-ui-accent outline-none"
+                        />
+                    )}
                     <button 
                         onClick={handleConnect}
                         disabled={isConnecting}
@@ -83,10 +232,101 @@ export const ConnectionSetup: React.FC<ConnectionSetupProps> = ({ role, mode, ne
                             ${isConnecting ? 'bg-cave-700 text-cave-light' : 'bg-ui-accent text-white hover:bg-red-600'}
                         `}
                     >
-                        {isConnecting ? '...' : 'LINK'}
+                        {isConnecting ? '...' : isHosting ? 'HOST' : role === 'SPECTATOR' ? 'WATCH' : 'JOIN'}
                     </button>
                  </div>
+                 {role === 'RUNNER' && (
+                     <label className="flex items-center gap-2 mt-3 text-[10px] text-cave-light cursor-pointer">
+                         <input
+                             type="checkbox"
+                             checked={authoritative}
+                             onChange={(e) => setAuthoritative(e.target.checked)}
+                             disabled={isConnecting || !isHosting}
+                             className="accent-ui-accent"
+                         />
+                         SERVER RUNS THE MATCH (no one can cheat, movement is predicted locally)
+                     </label>
+                 )}
              </div>
+
+             {hostedCode && (
+                 <div className="border border-ui-accent/50 bg-cave-900 p-4 text-center">
+                     <p className="text-[10px] text-cave-light uppercase tracking-widest mb-1">Room Code</p>
+                     <p className="text-4xl font-bold tracking-[0.4em] text-white">{hostedCode}</p>
+                 </div>
+             )}
+        </div>
+        ) : (
+        <div className="space-y-6">
+             <p className="text-[10px] text-cave-light">
+                 {role === 'RUNNER'
+                    ? 'Create an offer and get it to the trapper: copy the text or let them scan the QR code. Then enter the answer they give back.'
+                    : "Paste or scan the host's offer, then give the answer back to the host the same way."}
+             </p>
+
+             {role === 'RUNNER' && !localBlob && (
+                 <button
+                     onClick={() => handleManualStart()}
+                     disabled={isConnecting}
+                     className={`w-full font-bold px-6 py-2 text-sm ${isConnecting ? 'bg-cave-700 text-cave-light' : 'bg-ui-accent text-white hover:bg-red-600'}`}
+                 >
+                     {isConnecting ? '...' : 'CREATE OFFER'}
+                 </button>
+             )}
+
+             {localBlob && <BlobCard label={role === 'RUNNER' ? 'Your Offer' : 'Your Answer'} blob={localBlob} />}
+
+             {canPaste && (
+                 <div>
+                     <p className="text-white text-sm mb-2">{role === 'RUNNER' ? "TRAPPER'S ANSWER" : "HOST'S OFFER"}</p>
+                     {isScanning && <QrScanner onScan={handleScan} onError={handleScanError} />}
+                     <textarea
+                         value={remoteBlob}
+                         onChange={(e) => setRemoteBlob(e.target.value)}
+                         placeholder="CPV1...."
+                         rows={3}
+                         className="w-full bg-cave-900 border border-cave-light/30 text-white px-2 py-2 text-[10px] break-all focus:border-ui-accent outline-none"
+                     />
+                     <div className="flex gap-2 mt-2">
+                         {canScanQr() && (
+                             <button
+                                 onClick={() => setIsScanning(!isScanning)}
+                                 className="border border-cave-700 text-cave-light hover:text-white px-4 py-2 text-xs"
+                             >
+                                 {isScanning ? 'STOP SCAN' : 'SCAN QR'}
+                             </button>
+                         )}
+                         <button
+                             onClick={() => handleRemoteBlob(remoteBlob)}
+                             disabled={!remoteBlob.trim()}
+                             className="flex-1 font-bold px-6 py-2 text-sm bg-ui-accent text-white hover:bg-red-600 disabled:bg-cave-700 disabled:text-cave-light"
+                         >
+                             {role === 'RUNNER' ? 'CONNECT' : 'ANSWER'}
+                         </button>
+                     </div>
+                 </div>
+             )}
+        </div>
+        )}
+
+        <div className="mt-6">
+            <button onClick={() => setShowIce(!showIce)} className="text-[10px] text-cave-light hover:text-white">
+                {showIce ? '[-]' : '[+]'} ICE SERVERS
+            </button>
+            {showIce && (
+                <div className="mt-2">
+                    <p className="text-[10px] text-cave-light mb-2">
+                        One STUN/TURN URL per line (turn:user:pass@host:3478). Leave empty on an offline LAN.
+                    </p>
+                    <textarea
+                        value={iceText}
+                        onChange={(e) => setIceText(e.target.value)}
+                        rows={3}
+                        disabled={isConnecting}
+                        className="w-full bg-cave-900 border border-cave-light/30 text-white px-2 py-2 text-[10px] focus:border-ui-accent outline-none"
+                    />
+                </div>
+            )}
         </div>
 
         <div className="mt-8 pt-4 border-t border-cave-800 text-center">
@@ -97,4 +337,38 @@ export const ConnectionSetup: React.FC<ConnectionSetupProps> = ({ role, mode, ne
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
+interface BlobCardProps {
+    label: string;
+    blob: string;
+}
+
+const BlobCard: React.FC<BlobCardProps> = ({ label, blob }) => {
+    const [copied, setCopied] = useState(false);
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(blob);
+            setCopied(true);
+        } catch (e) {
+            // No clipboard permission: the text can still be selected by hand
+        }
+    };
+
+    return (
+        <div className="border border-ui-accent/50 bg-cave-900 p-4 text-center space-y-3">
+            <p className="text-[10px] text-cave-light uppercase tracking-widest">{label}</p>
+            <QrCode text={blob} />
+            <textarea
+                readOnly
+                value={blob}
+                rows={3}
+                onFocus={(e) => e.target.select()}
+                className="w-full bg-black border border-cave-700 text-cave-light px-2 py-1 text-[10px] break-all outline-none"
+            />
+            <button onClick={handleCopy} className="text-xs text-ui-accent hover:text-white">
+                {copied ? '[ COPIED ]' : '[ COPY ]'}
+            </button>
+        </div>
+    );
+};
@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import {
+  DIFFICULTIES, LEVEL_LENGTHS, LevelParams, levelCode, parseLevelCode, randomLevelParams,
+} from '../services/levelGen';
+
+interface LevelPickerProps {
+  params: LevelParams;
+  onChange: (params: LevelParams) => void;
+  useGemini?: boolean;
+  onUseGemini?: (useGemini: boolean) => void; // Only offered when a Gemini key is set
+}
+
+// Runner's lobby: the level the next run is built from. Its code can be
+// copied and handed around, or pasted in to play someone's level again.
+export const LevelPicker: React.FC<LevelPickerProps> = ({ params, onChange, useGemini = false, onUseGemini }) => {
+  const code = levelCode(params);
+  const [draft, setDraft] = useState(code);
+  const [copied, setCopied] = useState(false);
+  const isDraftValid = parseLevelCode(draft) !== null;
+
+  useEffect(() => {
+    setDraft(code);
+    setCopied(false);
+  }, [code]);
+
+  const applyDraft = () => {
+    const parsed = parseLevelCode(draft);
+    if (parsed) onChange(parsed);
+    else setDraft(code);
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+    } catch (e) {
+      // No clipboard permission: the code can still be selected by hand
+    }
+  };
+
+  return (
+    <div className="p-4 border border-cave-light/30 bg-black/20">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-xs uppercase text-cave-light">Level</span>
+        {onUseGemini && (
+          <label className="flex items-center gap-2 text-[10px] uppercase text-cave-light cursor-pointer">
+            <input type="checkbox" checked={useGemini} onChange={(e) => onUseGemini(e.target.checked)} className="accent-white" />
+            AI Layout (Gemini)
+          </label>
+        )}
+      </div>
+
+      <div className={`space-y-2 ${useGemini ? 'opacity-40 pointer-events-none' : ''}`}>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value.toUpperCase())}
+            onBlur={applyDraft}
+            onKeyDown={(e) => e.key === 'Enter' && applyDraft()}
+            onFocus={(e) => e.target.select()}
+            spellCheck={false}
+            className={`flex-1 min-w-0 bg-cave-900 border px-2 py-1 text-sm text-white tracking-widest outline-none ${isDraftValid ? 'border-cave-light/30 focus:border-white' : 'border-red-500'}`}
+          />
+          <button onClick={handleCopy} className="text-xs text-cave-light hover:text-white">
+            {copied ? '[ COPIED ]' : '[ COPY ]'}
+          </button>
+          <button onClick={() => onChange(randomLevelParams(params.difficulty, params.length))} className="text-xs text-cave-light hover:text-white">
+            [ NEW ]
+          </button>
+        </div>
+        <OptionRow
+          options={DIFFICULTIES}
+          value={params.difficulty}
+          label={difficulty => difficulty}
+          onSelect={difficulty => onChange({ ...params, difficulty })}
+        />
+        <OptionRow
+          options={LEVEL_LENGTHS}
+          value={params.length}
+          label={length => `${length}m`}
+          onSelect={length => onChange({ ...params, length })}
+        />
+      </div>
+
+      {useGemini && (
+        <div className="text-[10px] text-cave-light mt-2 uppercase">Gemini levels have no code and can't be replayed</div>
+      )}
+    </div>
+  );
+};
+
+interface OptionRowProps<T> {
+    options: readonly T[];
+    value: T;
+    label: (option: T) => string;
+    onSelect: (option: T) => void;
+}
+
+const OptionRow = <T extends string | number>({ options, value, label, onSelect }: OptionRowProps<T>) => (
+    <div className="flex gap-2">
+        {options.map(option => (
+            <button
+                key={option}
+                onClick={() => onSelect(option)}
+                className={`flex-1 py-1 text-[10px] uppercase border ${option === value ? 'border-white text-white' : 'border-cave-700 text-cave-light hover:text-white'}`}
+            >
+                {label(option)}
+            </button>
+        ))}
+    </div>
+);
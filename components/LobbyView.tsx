@@ -1,5 +1,10 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Role, ChatMessage, ConnectionMode } from '../types';
+import { Role, ChatMessage, ConnectionMode, MAX_RUNNERS } from '../types';
+import { LinkStats } from '../services/linkMonitor';
+import { SERIES_LENGTHS } from '../services/series';
+import { LevelParams } from '../services/levelGen';
+import { LevelPicker } from './LevelPicker';
+import { NetStatsOverlay } from './NetStatsOverlay';
 
 interface LobbyViewProps {
   role: Role;
@@ -9,9 +14,27 @@ interface LobbyViewProps {
   onStartGame: () => void;
   onBack: () => void;
   isOpponentConnected: boolean;
+  rivalCount?: number; // Runner: other runners in the room, raced if the run starts now
+  seriesRounds?: number; // Runner: rounds in the series the start button begins (1 = a single run)
+  onSeriesRounds?: (rounds: number) => void;
+  // Runner: what the next level is built from
+  levelParams?: LevelParams;
+  onLevelParams?: (params: LevelParams) => void;
+  useGemini?: boolean;
+  onUseGemini?: (useGemini: boolean) => void; // Only with a Gemini key
+  protocolError?: string | null; // The opponent's build can't be paired with this one
   isLoading: boolean;
+  netStats?: LinkStats | null; // Shown when the overlay is toggled on
 }
 
+const PROTOCOL_LABEL: Record<ConnectionMode, string> = {
+  LOCAL: 'LOCAL BUS',
+  UDP_P2P: 'UDP STREAM (FAST)',
+  WS_RELAY: 'TCP RELAY (FALLBACK)',
+  MATCH_SERVER: 'SERVER AUTHORITATIVE (TCP)',
+};
+
+// Spectators only read along; the players run the lobby
 export const LobbyView: React.FC<LobbyViewProps> = ({
   role,
   connectionMode,
@@ -20,9 +43,23 @@ export const LobbyView: React.FC<LobbyViewProps> = ({
   onStartGame,
   onBack,
   isOpponentConnected,
-  isLoading
+  rivalCount = 0,
+  seriesRounds = 1,
+  onSeriesRounds,
+  levelParams,
+  onLevelParams,
+  useGemini,
+  onUseGemini,
+  protocolError,
+  isLoading,
+  netStats
 }) => {
   const [inputText, setInputText] = useState('');
+  const isSpectator = role === 'SPECTATOR';
+  const racers = Math.min(rivalCount + 1, MAX_RUNNERS);
+  // Series are one on one, and the roles swap between rounds, which the match server's seats don't
+  const canPlaySeries = role === 'RUNNER' && rivalCount === 0 && connectionMode !== 'MATCH_SERVER';
+  const isSeries = canPlaySeries && isOpponentConnected && seriesRounds > 1;
   const chatContainerRef = useRef<HTMLDivElement>(null);
 
   // Auto-scroll chat
@@ -43,7 +80,7 @@ export const LobbyView: React.FC<LobbyViewProps> = ({
   return (
     <div className="flex h-screen bg-cave-900 font-mono text-ui-text overflow-hidden">
       {/* Left Panel: Status */}
-      <div className="w-1/3 border-r-2 border-cave-700 bg-cave-800 p-6 flex flex-col justify-between">
+      <div className="w-1/3 border-r-2 border-cave-700 bg-cave-800 p-6 flex flex-col justify-between gap-6 overflow-y-auto">
         <div>
           <div className="flex justify-between items-start mb-6">
             <h2 className="text-3xl font-bold tracking-tighter text-white">NET_LOBBY</h2>
@@ -52,12 +89,13 @@ export const LobbyView: React.FC<LobbyViewProps> = ({
           <div className="space-y-6">
             <div className="p-4 border border-cave-light/30 bg-black/20">
               <div className="text-xs uppercase text-cave-light mb-1">Local Status</div>
-              <div className={`text-xl font-bold ${role === 'RUNNER' ? 'text-white' : 'text-ui-accent'}`}>
+              <div className={`text-xl font-bold ${role === 'RUNNER' ? 'text-white' : isSpectator ? 'text-cave-light' : 'text-ui-accent'}`}>
                 YOU: {role}
               </div>
               <div className="text-[10px] text-cave-light mt-1">
-                PROTOCOL: {connectionMode === 'UDP_P2P' ? 'UDP STREAM (FAST)' : 'LOCAL BUS'}
+                PROTOCOL: <span className={connectionMode === 'WS_RELAY' ? 'text-yellow-400' : ''}>{PROTOCOL_LABEL[connectionMode]}</span>
               </div>
+              <div className="text-[10px] text-cave-light/60 mt-1">[F3] LINK STATS</div>
             </div>
 
             <div className="p-4 border border-cave-light/30 bg-black/20">
@@ -65,22 +103,61 @@ export const LobbyView: React.FC<LobbyViewProps> = ({
               <div className="flex items-center gap-2">
                 <div className={`w-3 h-3 rounded-full ${isOpponentConnected ? 'bg-green-500 shadow-[0_0_8px_#22c55e]' : 'bg-red-900'}`} />
                 <span className={`text-xl font-bold ${isOpponentConnected ? 'text-green-500' : 'text-red-900'}`}>
-                  {isOpponentConnected ? 'OPPONENT LINKED' : 'SEARCHING...'}
+                  {isOpponentConnected ? (isSpectator ? 'PLAYERS LINKED' : 'OPPONENT LINKED') : protocolError ? 'INCOMPATIBLE' : 'SEARCHING...'}
                 </span>
               </div>
+              {protocolError && (
+                <div className="text-[10px] text-red-500 mt-2">{protocolError}</div>
+              )}
+              {role === 'RUNNER' && rivalCount > 0 && (
+                <div className="text-[10px] text-cave-light mt-2 uppercase">
+                  {rivalCount} other runner{rivalCount > 1 ? 's' : ''} in the room: starting runs a race
+                </div>
+              )}
             </div>
+
+            {canPlaySeries && onSeriesRounds && (
+              <div className="p-4 border border-cave-light/30 bg-black/20">
+                <div className="text-xs uppercase text-cave-light mb-2">Match Format</div>
+                <div className="flex gap-2">
+                  {SERIES_LENGTHS.map(rounds => (
+                    <button
+                      key={rounds}
+                      onClick={() => onSeriesRounds(rounds)}
+                      className={`flex-1 py-1 text-xs uppercase border ${rounds === seriesRounds ? 'border-white text-white' : 'border-cave-700 text-cave-light hover:text-white'}`}
+                    >
+                      {rounds === 1 ? 'Single Run' : `Best of ${rounds}`}
+                    </button>
+                  ))}
+                </div>
+                {seriesRounds > 1 && (
+                  <div className="text-[10px] text-cave-light mt-2 uppercase">Roles swap every round; you run first</div>
+                )}
+              </div>
+            )}
+
+            {role === 'RUNNER' && levelParams && onLevelParams && (
+              <LevelPicker params={levelParams} onChange={onLevelParams} useGemini={useGemini} onUseGemini={onUseGemini} />
+            )}
           </div>
         </div>
 
         <div className="space-y-4">
-          <div className="text-xs text-cave-light">
-             <p>1. Wait for opponent to connect.</p>
-             <p>2. Chat to confirm readiness.</p>
-             {role === 'RUNNER' ? <p>3. Start the simulation.</p> : <p>3. Wait for Runner to start.</p>}
-          </div>
+          {isSpectator ? (
+            <div className="text-xs text-cave-light">
+               <p>1. Wait for the players to connect.</p>
+               <p>2. The run shows up here when the Runner starts it.</p>
+            </div>
+          ) : (
+            <div className="text-xs text-cave-light">
+               <p>1. Wait for opponent to connect.</p>
+               <p>2. Chat to confirm readiness.</p>
+               {role === 'RUNNER' ? <p>3. Start the simulation.</p> : <p>3. Wait for Runner to start.</p>}
+            </div>
+          )}
 
           <div className="flex flex-col gap-2">
-            {role === 'RUNNER' ? (
+            {isSpectator ? null : role === 'RUNNER' ? (
                 <button
                 onClick={onStartGame}
                 disabled={isLoading}
@@ -94,7 +171,7 @@ export const LobbyView: React.FC<LobbyViewProps> = ({
                     }
                 `}
                 >
-                {isLoading ? 'GENERATING...' : isOpponentConnected ? 'INITIATE RUN' : 'FORCE RUN (OFFLINE)'}
+                {isLoading ? 'GENERATING...' : rivalCount > 0 ? `START RACE (${racers} RUNNERS)` : isSeries ? `START BEST OF ${seriesRounds}` : isOpponentConnected ? 'INITIATE RUN' : 'FORCE RUN (OFFLINE)'}
                 </button>
             ) : (
                  <button
@@ -163,26 +240,30 @@ export const LobbyView: React.FC<LobbyViewProps> = ({
         </div>
 
         {/* Input */}
-        <form onSubmit={handleSubmit} className="border-t border-cave-700 p-4 bg-cave-900">
-          <div className="flex gap-2">
-            <span className="text-cave-light py-2">{'>'}</span>
-            <input 
-              type="text" 
-              value={inputText}
-              onChange={(e) => setInputText(e.target.value)}
-              placeholder="Transmit message..."
-              className="flex-1 bg-transparent border-none outline-none text-white font-mono focus:ring-0"
-              autoFocus
-            />
-            <button 
-              type="submit"
-              className="px-4 py-2 border border-cave-light text-cave-light hover:bg-cave-light hover:text-black text-xs uppercase"
-            >
-              Send
-            </button>
-          </div>
-        </form>
+        {!isSpectator && (
+          <form onSubmit={handleSubmit} className="border-t border-cave-700 p-4 bg-cave-900">
+            <div className="flex gap-2">
+              <span className="text-cave-light py-2">{'>'}</span>
+              <input 
+                type="text" 
+                value={inputText}
+                onChange={(e) => setInputText(e.target.value)}
+                placeholder="Transmit message..."
+                className="flex-1 bg-transparent border-none outline-none text-white font-mono focus:ring-0"
+                autoFocus
+              />
+              <button 
+                type="submit"
+                className="px-4 py-2 border border-cave-light text-cave-light hover:bg-cave-light hover:text-black text-xs uppercase"
+              >
+                Send
+              </button>
+            </div>
+          </form>
+        )}
       </div>
+
+      {netStats && <NetStatsOverlay stats={netStats} />}
     </div>
   );
 };
\ No newline at end of file
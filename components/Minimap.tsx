@@ -0,0 +1,153 @@
+import React from 'react';
+import { GameState } from '../types';
+import { platformKind } from '../services/platforms';
+import { TRAP_DEFINITIONS } from '../services/traps';
+import { PICKUP_LABELS } from '../services/abilities';
+import { HAZARD_STYLES, LANE_STYLES, PLATFORM_STYLES } from './levelStyles';
+
+interface MinimapProps {
+  gameState: GameState;
+  scale: number; // World px -> map px
+  offset: number; // Map px scrolled off to the left
+  worldRef?: React.RefObject<HTMLDivElement | null>;
+  className?: string;
+  onPointerMove?: (e: React.PointerEvent) => void;
+  onPointerLeave?: () => void;
+  onClick?: (e: React.MouseEvent) => void;
+  children?: React.ReactNode; // Drawn in world space, above the level
+  // Races: every lane's run; the others get a dot in their lane color
+  lanes?: (GameState | null)[];
+  lane?: number; // Whose run `gameState` is
+}
+
+// The whole level scaled down, scrolled to follow the runner. The trapper
+// aims traps on it; spectators watch it next to the runner camera.
+export const Minimap: React.FC<MinimapProps> = ({ gameState, scale, offset, worldRef, className = '', onPointerMove, onPointerLeave, onClick, children, lanes = [], lane = 0 }) => {
+  const targetedPlatformIds = new Set(gameState.armingTraps.map(t => t.platformId).filter(Boolean));
+
+  return (
+    <div 
+      ref={worldRef}
+      onPointerMove={onPointerMove}
+      onPointerLeave={onPointerLeave}
+      onClick={onClick}
+      className={`absolute top-1/2 left-0 h-full w-full transition-transform duration-75 linear ${className}`}
+      style={{ 
+          transform: `translateY(-50%) translateX(${-offset}px)`, 
+          width: `${gameState.levelLength * scale}px` 
+      }}
+    >
+      {/* Base line */}
+      <div className="absolute top-[300px] w-full border-b border-cave-800/30"></div>
+
+      {/* Platforms */}
+      {gameState.level.map(p => (
+        <div 
+            key={p.id}
+            className={`absolute ${PLATFORM_STYLES[platformKind(p)].minimap} ${p.crumbleTimer !== undefined || targetedPlatformIds.has(p.id) ? 'animate-pulse' : ''} ${targetedPlatformIds.has(p.id) ? 'ring-1 ring-red-500' : ''}`}
+            style={{
+                left: `${p.x * scale}px`,
+                top: `${p.y * scale}px`,
+                width: `${p.width * scale}px`,
+                height: `${p.height * scale}px`,
+            }}
+        />
+      ))}
+
+      {/* Hazards */}
+      {gameState.hazards.map(h => (
+        <div 
+            key={h.id}
+            className={`absolute ${HAZARD_STYLES[h.kind].minimap}`}
+            style={{
+                left: `${h.x * scale}px`,
+                top: `${h.y * scale}px`,
+                width: `${h.width * scale}px`,
+                height: `${Math.max(2, h.height * scale)}px`,
+            }}
+        />
+      ))}
+
+      {/* Checkpoints */}
+      {gameState.checkpoints.map(cp => (
+        <div 
+            key={cp.id}
+            className={`absolute w-1 ${cp.id === gameState.activeCheckpointId ? 'bg-green-400 shadow-[0_0_6px_#4ade80]' : 'bg-cave-light/50'}`}
+            style={{
+                left: `${(cp.x + cp.width / 2) * scale}px`,
+                top: `${cp.y * scale}px`,
+                height: `${cp.height * scale}px`,
+            }}
+        />
+      ))}
+
+      {/* Pickups */}
+      {gameState.pickups.map(p => (
+        <div 
+            key={p.id}
+            className={`absolute -translate-x-1/2 -translate-y-1/2 text-[10px] leading-none pointer-events-none ${p.kind === 'EXTRA_REVIVE' ? 'text-ui-accent' : 'text-yellow-300'}`}
+            style={{
+                left: `${p.x * scale}px`,
+                top: `${p.y * scale}px`,
+            }}
+        >
+            {PICKUP_LABELS[p.kind].icon}
+        </div>
+      ))}
+
+      {/* Placed Traps */}
+      {gameState.placedTraps.map(t => (
+        <div 
+            key={t.id}
+            className="absolute -translate-x-1/2 -translate-y-1/2 text-sm animate-pulse pointer-events-none"
+            style={{
+                left: `${t.x * scale}px`,
+                top: `${t.y * scale}px`,
+            }}
+        >
+            {TRAP_DEFINITIONS[t.type].icon}
+        </div>
+      ))}
+
+      {/* Arming Traps (countdown to detonation) */}
+      {gameState.armingTraps.map(t => (
+        <div 
+            key={t.id}
+            className="absolute -translate-x-1/2 -translate-y-1/2 flex flex-col items-center pointer-events-none"
+            style={{
+                left: `${t.x * scale}px`,
+                top: `${t.y * scale}px`,
+            }}
+        >
+            <span className="text-sm">{TRAP_DEFINITIONS[t.type].icon}</span>
+            <span className="text-[10px] font-bold text-yellow-400">{(t.remaining / 1000).toFixed(1)}s</span>
+        </div>
+      ))}
+
+      {children}
+
+      {/* Rival Dots */}
+      {lanes.map((rival, i) => rival && i !== lane && rival.gameStatus !== 'LOST' && (
+        <div 
+            key={i}
+            className={`absolute w-2 h-2 rounded-full opacity-70 pointer-events-none ${LANE_STYLES[i].dot}`}
+            style={{
+                left: `${rival.player.x * scale}px`,
+                top: `${rival.player.y * scale}px`,
+            }}
+        />
+      ))}
+
+      {/* Player Dot */}
+      {gameState.gameStatus !== 'LOST' && (
+        <div 
+            className={`absolute w-3 h-3 rounded-full animate-pulse ${gameState.player.abilities.shieldActive ? 'ring-2 ring-sky-300 ring-offset-1 ring-offset-cave-900' : ''} ${gameState.player.invulnerableTimer > 0 ? 'bg-cyan-300 shadow-[0_0_10px_#67e8f9]' : 'bg-red-600 shadow-[0_0_10px_#ff0000]'}`}
+            style={{
+                left: `${gameState.player.x * scale}px`,
+                top: `${gameState.player.y * scale}px`,
+            }}
+        />
+      )}
+    </div>
+  );
+};
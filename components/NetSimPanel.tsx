@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { MessageType, MESSAGE_DELIVERY, SIGNALING_MESSAGES } from '../types';
+import { LinkConditions, NetSimConfig, NET_SIM_PRESETS, PERFECT_LINK } from '../services/netSim';
+
+interface NetSimPanelProps {
+  config: NetSimConfig | null; // null: simulator off
+  onChange: (config: NetSimConfig | null) => void;
+}
+
+type Target = MessageType | 'ALL';
+
+// Signaling never goes through the game adapters, so there's nothing to tune
+const GAME_MESSAGES = (Object.keys(MESSAGE_DELIVERY) as MessageType[]).filter(type => !SIGNALING_MESSAGES.has(type));
+
+const FIELDS: { key: keyof LinkConditions; label: string; percent: boolean }[] = [
+  { key: 'latency', label: 'LATENCY MS', percent: false },
+  { key: 'jitter', label: 'JITTER MS', percent: false },
+  { key: 'loss', label: 'LOSS %', percent: true },
+  { key: 'duplicate', label: 'DUP %', percent: true },
+  { key: 'reorder', label: 'REORDER %', percent: true },
+];
+
+// Menu debug panel: applies to the next session started from the menu
+export const NetSimPanel: React.FC<NetSimPanelProps> = ({ config, onChange }) => {
+  const [target, setTarget] = useState<Target>('ALL');
+
+  const conditions: LinkConditions = config
+    ? { ...config.defaults, ...(target === 'ALL' ? {} : config.perType[target]) }
+    : PERFECT_LINK;
+
+  const setField = (key: keyof LinkConditions, raw: string, percent: boolean) => {
+    const value = Math.max(0, Number(raw) || 0);
+    const next: LinkConditions = { ...conditions, [key]: percent ? Math.min(value, 100) / 100 : value };
+    const base = config ?? { defaults: PERFECT_LINK, perType: {} };
+    onChange(target === 'ALL'
+      ? { ...base, defaults: next }
+      : { ...base, perType: { ...base.perType, [target]: next } });
+  };
+
+  const clearOverride = (type: MessageType) => {
+    if (!config) return;
+    const { [type]: _, ...perType } = config.perType;
+    onChange({ ...config, perType });
+  };
+
+  const overrides = config ? (Object.keys(config.perType) as MessageType[]) : [];
+
+  return (
+    <div className="border border-cave-light/20 p-4 mt-6">
+      <p className="text-xs text-cave-light mb-3 font-bold uppercase border-b border-cave-700 pb-1">
+        Net Sim (Debug) <span className={config ? 'text-yellow-400' : 'text-cave-700'}>{config ? 'ON' : 'OFF'}</span>
+      </p>
+
+      <div className="flex gap-1 mb-3">
+        <PresetButton label="OFF" active={!config} onClick={() => onChange(null)} />
+        {(Object.keys(NET_SIM_PRESETS) as (keyof typeof NET_SIM_PRESETS)[]).map(name => (
+          <PresetButton key={name} label={name} onClick={() => onChange({ defaults: NET_SIM_PRESETS[name], perType: {} })} />
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2 mb-2 text-[10px] text-cave-light">
+        <span>APPLIES TO</span>
+        <select
+          value={target}
+          onChange={(e) => setTarget(e.target.value as Target)}
+          className="flex-1 bg-cave-900 border border-cave-light/30 text-white px-1 py-1 text-[10px] outline-none"
+        >
+          <option value="ALL">ALL MESSAGES</option>
+          {GAME_MESSAGES.map(type => (
+            <option key={type} value={type}>{type} ({MESSAGE_DELIVERY[type]})</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-5 gap-1">
+        {FIELDS.map(({ key, label, percent }) => (
+          <label key={key} className="text-[9px] text-cave-light">
+            {label}
+            <input
+              type="number"
+              min={0}
+              value={percent ? Math.round(conditions[key] * 1000) / 10 : conditions[key]}
+              onChange={(e) => setField(key, e.target.value, percent)}
+              className="w-full bg-cave-900 border border-cave-light/30 text-white px-1 py-1 text-[10px] outline-none focus:border-ui-accent"
+            />
+          </label>
+        ))}
+      </div>
+
+      {overrides.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-1">
+          {overrides.map(type => (
+            <button
+              key={type}
+              onClick={() => clearOverride(type)}
+              className="text-[9px] border border-yellow-600 text-yellow-500 px-1 hover:bg-yellow-900/20"
+            >
+              {type} [x]
+            </button>
+          ))}
+        </div>
+      )}
+      <p className="text-[9px] text-cave-700 mt-2">Applied to both directions. Reliable messages are delayed instead of lost.</p>
+    </div>
+  );
+};
+
+interface PresetButtonProps {
+    label: string;
+    active?: boolean;
+    onClick: () => void;
+}
+
+const PresetButton: React.FC<PresetButtonProps> = ({ label, active, onClick }) => (
+    <button
+        onClick={onClick}
+        className={`flex-1 py-1 text-[10px] border transition-colors ${active ? 'border-ui-accent text-white' : 'border-cave-700 text-cave-light hover:text-white'}`}
+    >
+        {label}
+    </button>
+);
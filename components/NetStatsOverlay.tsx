@@ -0,0 +1,36 @@
+import React from 'react';
+import { LinkStats } from '../services/linkMonitor';
+
+interface NetStatsOverlayProps {
+  stats: LinkStats;
+  playoutDelay?: number; // Trapper only: how far behind the runner the view is drawn
+}
+
+const rttColor = (rtt: number | null) =>
+  rtt === null ? 'text-cave-light' : rtt < 80 ? 'text-green-400' : rtt < 150 ? 'text-yellow-400' : 'text-red-500';
+
+const lossColor = (loss: number) =>
+  loss < 0.02 ? 'text-green-400' : loss < 0.1 ? 'text-yellow-400' : 'text-red-500';
+
+const kbPerSecond = (bytes: number) => `${(bytes / 1024).toFixed(1)} KB/s`;
+
+// Toggled with F3 in every screen that has an opponent
+export const NetStatsOverlay: React.FC<NetStatsOverlayProps> = ({ stats, playoutDelay }) => (
+  <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-[60] pointer-events-none bg-black/80 border border-cave-700 px-4 py-2 font-mono text-[10px] uppercase tracking-widest text-cave-light flex gap-4">
+    <span className={stats.connected ? 'text-green-400' : 'text-red-500 animate-pulse'}>
+      {stats.connected ? 'LINK OK' : 'LINK LOST'}
+    </span>
+    <span>
+      RTT <span className={rttColor(stats.rtt)}>{stats.rtt === null ? '--' : `${Math.round(stats.rtt)}ms`}</span>
+    </span>
+    <span>JITTER {Math.round(stats.jitter)}ms</span>
+    <span>
+      LOSS <span className={lossColor(stats.loss)}>{Math.round(stats.loss * 100)}%</span>
+    </span>
+    {playoutDelay !== undefined && <span>BUFFER {Math.round(playoutDelay)}ms</span>}
+    <span>↑ {kbPerSecond(stats.upRate)}</span>
+    <span>↓ {kbPerSecond(stats.downRate)}</span>
+    {stats.malformed > 0 && <span className="text-red-500">MALFORMED {stats.malformed}</span>}
+    {stats.sinceLastHeard > 1000 && <span className="text-yellow-400">SILENT {(stats.sinceLastHeard / 1000).toFixed(1)}s</span>}
+  </div>
+);
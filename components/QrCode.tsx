@@ -0,0 +1,102 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { encodeQr } from '../services/qrcode';
+
+const QUIET_ZONE = 4; // Modules of white border scanners need around the code
+
+interface QrCodeProps {
+  text: string;
+  size?: number; // px
+}
+
+export const QrCode: React.FC<QrCodeProps> = ({ text, size = 240 }) => {
+  const modules = useMemo(() => {
+    try {
+      return encodeQr(text);
+    } catch (e) {
+      return null; // Too long for a QR code, the text blob still works
+    }
+  }, [text]);
+
+  if (!modules) return <p className="text-[10px] text-yellow-400">Too long for a QR code, copy the text instead.</p>;
+
+  const extent = modules.length + QUIET_ZONE * 2;
+  const path = modules
+    .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + QUIET_ZONE},${y + QUIET_ZONE}h1v1h-1z` : '')))
+    .join('');
+
+  return (
+    <svg viewBox={`0 0 ${extent} ${extent}`} width={size} height={size} shapeRendering="crispEdges" className="mx-auto">
+      <rect width={extent} height={extent} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  );
+};
+
+// Native QR detection only exists in some browsers (Chromium, mostly), and
+// TypeScript's DOM types don't know it yet: just the part we use
+interface BarcodeDetector {
+  detect: (source: HTMLVideoElement) => Promise<{ rawValue: string }[]>;
+}
+
+declare global {
+  interface Window {
+    BarcodeDetector?: new (options: { formats: string[] }) => BarcodeDetector;
+  }
+}
+
+export const canScanQr = (): boolean => 'BarcodeDetector' in window;
+
+interface QrScannerProps {
+  onScan: (text: string) => void;
+  onError: (message: string) => void;
+}
+
+const SCAN_INTERVAL_MS = 300;
+
+export const QrScanner: React.FC<QrScannerProps> = ({ onScan, onError }) => {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const [isLive, setIsLive] = useState(false);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let stopped = false;
+    if (!window.BarcodeDetector) {
+      onError('QR scanning is not supported in this browser.');
+      return;
+    }
+    const detector = new window.BarcodeDetector({ formats: ['qr_code'] });
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' } })
+      .then(async (media) => {
+        stream = media;
+        if (stopped || !videoRef.current) return;
+        videoRef.current.srcObject = media;
+        await videoRef.current.play();
+        setIsLive(true);
+        timer = window.setInterval(async () => {
+          if (!videoRef.current) return;
+          const codes = await detector.detect(videoRef.current).catch(() => []);
+          if (codes.length > 0 && !stopped) {
+            stopped = true;
+            onScan(codes[0].rawValue);
+          }
+        }, SCAN_INTERVAL_MS);
+      })
+      .catch(() => onError('No camera access.'));
+
+    return () => {
+      stopped = true;
+      window.clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [onScan, onError]);
+
+  return (
+    <div className="border border-cave-700 bg-cave-900 p-2 text-center">
+      <video ref={videoRef} muted playsInline className="w-full max-h-60 object-cover" />
+      {!isLive && <p className="text-[10px] text-cave-light mt-2 animate-pulse">Starting camera...</p>}
+    </div>
+  );
+};
@@ -0,0 +1,35 @@
+import React from 'react';
+import { GameState } from '../types';
+import { laneName, raceStandings } from '../services/race';
+import { LANE_STYLES } from './levelStyles';
+
+interface RaceStandingsProps {
+  lanes: (GameState | null)[];
+  ownLane?: number; // Marked as the viewer's
+}
+
+const STATUS_TEXT: Record<GameState['gameStatus'], string> = {
+  IDLE: 'Running',
+  PLAYING: 'Running',
+  WON: 'Escaped',
+  LOST: 'Eliminated',
+};
+
+// Finishing order for the end screens of a race
+export const RaceStandings: React.FC<RaceStandingsProps> = ({ lanes, ownLane }) => (
+  <div className="w-80 border border-cave-700 bg-cave-900/80 p-4 font-mono text-xs uppercase tracking-widest">
+    {raceStandings(lanes).map((standing, place) => (
+      <div key={standing.lane} className={`flex items-center gap-3 py-1 ${standing.lane === ownLane ? 'font-bold' : ''}`}>
+        <span className="w-6 text-cave-light">{place + 1}.</span>
+        <span className={`w-3 h-3 ${LANE_STYLES[standing.lane].dot}`} />
+        <span className={`flex-1 ${LANE_STYLES[standing.lane].text}`}>
+          {laneName(standing.lane)}{standing.lane === ownLane ? ' (you)' : ''}
+        </span>
+        <span className={standing.status === 'WON' ? 'text-green-400' : standing.status === 'LOST' ? 'text-red-500' : 'text-cave-light'}>
+          {STATUS_TEXT[standing.status]}
+        </span>
+        <span className="w-16 text-right text-white">{standing.time.toFixed(2)}s</span>
+      </div>
+    ))}
+  </div>
+);
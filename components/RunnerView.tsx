@@ -1,19 +1,52 @@
 import React, { useEffect, useRef } from 'react';
-import { GameState, PlayerState, Platform } from '../types';
+import { GameState, Series, TrapType, PLAYER_WIDTH, PLAYER_HEIGHT } from '../types';
+import { TRAP_DEFINITIONS, TRAP_TYPES, hasEffect } from '../services/traps';
+import { DASH_COOLDOWN_MS, SHIELD_COOLDOWN_MS, isDashing } from '../services/abilities';
+import { SyncStats } from '../services/stateSync';
+import { PredictionStats } from '../services/prediction';
+import { LinkStats } from '../services/linkMonitor';
+import { laneName, raceStandings } from '../services/race';
+import { LANE_STYLES } from './levelStyles';
+import { NetStatsOverlay } from './NetStatsOverlay';
+import { RaceStandings } from './RaceStandings';
+import { SeriesScoreboard } from './SeriesScoreboard';
+import { RunnerWorld, followCamera } from './RunnerWorld';
 
 interface RunnerViewProps {
   gameState: GameState;
   onBack: () => void;
   sendAction?: (action: any) => void;
+  syncStats?: SyncStats; // Uplink bandwidth to the trapper
+  predictionStats?: PredictionStats; // Match server mode: how well prediction keeps up
+  netStats?: LinkStats | null; // Shown when the overlay is toggled on
+  isPaused?: boolean; // The trapper's link dropped; the run waits for them
+  lanes?: (GameState | null)[]; // Races: every runner's run, this one included
+  lane?: number; // This runner's lane
+  // Series: the tally, our client ID in it, and the way to the next round
+  series?: Series | null;
+  ownId?: string;
+  onNextRound?: () => void;
+  onLobby?: () => void; // Keeps the connection, unlike onBack
 }
 
-export const RunnerView: React.FC<RunnerViewProps> = ({ gameState, onBack }) => {
+export const RunnerView: React.FC<RunnerViewProps> = ({ gameState, onBack, syncStats, predictionStats, netStats, isPaused, lanes = [], lane = 0, series, ownId, onNextRound, onLobby }) => {
   const containerRef = useRef<HTMLDivElement>(null);
 
-  // Camera follow logic
-  // We want the player to be roughly in the center left of the screen, but clamp at start/end
   const viewportWidth = typeof window !== 'undefined' ? window.innerWidth : 1000;
-  const cameraX = Math.max(0, gameState.player.x - viewportWidth * 0.3);
+  const cameraX = followCamera(gameState.player.x, viewportWidth);
+
+  const activeCheckpointIndex = gameState.checkpoints.findIndex(cp => cp.id === gameState.activeCheckpointId);
+
+  const { player } = gameState;
+  const isRace = lanes.length > 1;
+  const place = raceStandings(lanes).findIndex(standing => standing.lane === lane) + 1;
+
+  // Traps aimed at the runner themselves get a HUD countdown (the world shows the rest)
+  const incomingTraps = gameState.armingTraps.filter(t => !TRAP_DEFINITIONS[t.type].needsPlatform && !TRAP_DEFINITIONS[t.type].blastRadius);
+
+  // BLACKOUT leaves a small lit circle around the runner (screen space)
+  const lightX = player.x - cameraX + PLAYER_WIDTH / 2;
+  const lightY = player.y + PLAYER_HEIGHT / 2;
 
   return (
     <div 
@@ -26,11 +59,31 @@ export const RunnerView: React.FC<RunnerViewProps> = ({ gameState, onBack }) =>
           <div className="bg-cave-800/80 border border-cave-700 px-4 py-2 text-2xl font-bold tracking-widest text-white backdrop-blur-sm">
             TIME: {gameState.timeElapsed.toFixed(1)}s
           </div>
-          {gameState.player.controlsReversed && (
-             <div className="text-red-500 font-bold animate-pulse text-lg">
-               ⚠ CONTROLS REVERSED ⚠
+          {isRace && (
+            <div className={`bg-cave-800/80 border border-cave-700 px-4 py-1 text-xs tracking-widest backdrop-blur-sm uppercase ${LANE_STYLES[lane].text}`}>
+              {laneName(lane)}: Place {place}/{lanes.length}
+            </div>
+          )}
+          {gameState.checkpoints.length > 0 && (
+            <div className="bg-cave-800/80 border border-cave-700 px-4 py-1 text-xs tracking-widest text-cave-light backdrop-blur-sm uppercase">
+              Checkpoint: {activeCheckpointIndex + 1}/{gameState.checkpoints.length}
+            </div>
+          )}
+          {gameState.player.invulnerableTimer > 0 && (
+             <div className="text-cyan-300 font-bold text-sm tracking-widest">
+               TRAP SHIELD {(gameState.player.invulnerableTimer / 1000).toFixed(1)}s
              </div>
           )}
+          {incomingTraps.map(trap => (
+             <div key={trap.id} className="text-yellow-400 font-bold animate-pulse text-lg">
+               ⚠ INCOMING {TRAP_DEFINITIONS[trap.type].label} {(trap.remaining / 1000).toFixed(1)}s
+             </div>
+          ))}
+          {TRAP_TYPES.filter(type => TRAP_DEFINITIONS[type].warning && hasEffect(player, type)).map(type => (
+             <div key={type} className="text-red-500 font-bold animate-pulse text-lg">
+               {TRAP_DEFINITIONS[type].warning} {((player.effects[type] ?? 0) / 1000).toFixed(1)}s
+             </div>
+          ))}
         </div>
 
         {/* Right Side HUD */}
@@ -44,6 +97,10 @@ export const RunnerView: React.FC<RunnerViewProps> = ({ gameState, onBack }) =>
             <div className="text-cave-light text-sm uppercase tracking-widest mt-2">
                 Objective: Reach {gameState.levelLength}m
             </div>
+            {syncStats && syncStats.elapsedMs > 0 && (
+              <UplinkStats stats={syncStats} />
+            )}
+            {predictionStats && <PredictionInfo stats={predictionStats} />}
         </div>
       </div>
 
@@ -51,7 +108,7 @@ export const RunnerView: React.FC<RunnerViewProps> = ({ gameState, onBack }) =>
          <div className="flex items-center gap-2 text-ui-accent">
             <span className="text-sm uppercase tracking-widest text-cave-light">Revives</span>
             <div className="flex gap-1">
-              {Array.from({ length: 3 }).map((_, i) => (
+              {Array.from({ length: Math.max(3, gameState.revives) }).map((_, i) => (
                 <div 
                   key={i} 
                   className={`w-4 h-6 border-2 border-current ${i < gameState.revives ? 'bg-ui-accent' : 'bg-transparent opacity-30'}`}
@@ -61,60 +118,58 @@ export const RunnerView: React.FC<RunnerViewProps> = ({ gameState, onBack }) =>
          </div>
       </div>
 
-      {/* Game World Layer (Translated by camera) */}
-      <div 
-        className="absolute top-0 left-0 w-full h-full transition-transform duration-75 ease-linear will-change-transform"
-        style={{ transform: `translateX(-${cameraX}px)` }}
-      >
-        {/* Level End Marker */}
-        <div 
-            className="absolute top-0 bottom-0 border-r-4 border-dashed border-green-500/30 flex items-center justify-center"
-            style={{ left: `${gameState.levelLength}px`, width: '100px' }}
-        >
-            <span className="text-green-500/50 -rotate-90 text-4xl font-bold tracking-[1em]">FINISH</span>
-        </div>
+      {netStats && <NetStatsOverlay stats={netStats} />}
 
-        {/* Platforms */}
-        {gameState.level.map((platform) => (
-          <div
-            key={platform.id}
-            className="absolute bg-cave-700 border-t-4 border-cave-light shadow-lg"
-            style={{
-              left: `${platform.x}px`,
-              top: `${platform.y}px`,
-              width: `${platform.width}px`,
-              height: `${platform.height}px`,
-            }}
-          >
-            {/* Texture Detail */}
-            <div className="w-full h-full opacity-10 bg-[url('data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHdpZHRoPSI0IiBoZWlnaHQ9IjQiPgo8cmVjdCB3aWR0aD0iNCIgaGVpZ2h0PSI0IiBmaWxsPSIjZmZmIi8+CjxyZWN0IHdpZHRoPSIxIiBoZWlnaHQ9IjEiIGZpbGw9IiMwMDAiLz4KPC9zdmc+')]"></div>
+      {isPaused && (
+        <div className="absolute inset-0 z-[55] flex items-center justify-center bg-black/60 pointer-events-none">
+          <div className="border-2 border-yellow-500 bg-cave-900/90 px-8 py-6 text-center">
+            <div className="text-2xl font-bold tracking-widest text-yellow-400 animate-pulse">LINK LOST</div>
+            <div className="mt-2 text-xs uppercase tracking-widest text-cave-light">Run paused until the trapper reconnects</div>
           </div>
-        ))}
-
-        {/* Player Character */}
-        {gameState.gameStatus !== 'LOST' && (
-            <div
-            className={`absolute w-8 h-12 transition-colors duration-200 ${gameState.player.controlsReversed ? 'bg-purple-500 shadow-[0_0_15px_rgba(168,85,247,0.5)]' : 'bg-white shadow-[0_0_15px_rgba(255,255,255,0.3)]'}`}
-            style={{
-                left: `${gameState.player.x}px`,
-                top: `${gameState.player.y}px`,
-                // Simple animation tilt based on velocity
-                transform: `skewX(${gameState.player.vx * -2}deg)`
-            }}
-            >
-            <div className="absolute top-2 left-1/2 -translate-x-1/2 w-6 h-1 bg-black/20"></div> {/* Visor */}
-            </div>
-        )}
+        </div>
+      )}
 
-        {/* Effects/Particles could go here */}
+      {/* Abilities */}
+      <div className="absolute bottom-6 right-6 pointer-events-none z-50 flex gap-3">
+        <AbilityIndicator
+          label="Dash"
+          keyHint="SHIFT"
+          cooldown={player.abilities.dashCooldown}
+          maxCooldown={DASH_COOLDOWN_MS}
+          isActive={isDashing(player)}
+        />
+        <AbilityIndicator
+          label="Shield"
+          keyHint="C"
+          cooldown={player.abilities.shieldCooldown}
+          maxCooldown={SHIELD_COOLDOWN_MS}
+          isActive={player.abilities.shieldActive}
+        />
       </div>
 
+      <RunnerWorld gameState={gameState} cameraX={cameraX} lanes={lanes} lane={lane} />
+
+      {/* Trap Effect Overlays */}
+      {hasEffect(player, TrapType.WIND) && (
+        <div
+          className="absolute inset-0 pointer-events-none z-30 opacity-20 animate-pulse bg-[repeating-linear-gradient(0deg,transparent_0,transparent_38px,rgba(255,255,255,0.6)_38px,rgba(255,255,255,0.6)_40px)]"
+          style={{ transform: `skewY(${player.windDirection * 3}deg)` }}
+        />
+      )}
+      {hasEffect(player, TrapType.BLACKOUT) && (
+        <div
+          className="absolute inset-0 pointer-events-none z-40"
+          style={{ background: `radial-gradient(circle at ${lightX}px ${lightY}px, transparent 0, transparent 90px, rgba(0,0,0,0.97) 140px)` }}
+        />
+      )}
+
       {/* Game Over / Win Screens */}
       {gameState.gameStatus === 'LOST' && (
         <div className="absolute inset-0 z-50 bg-black/80 flex items-center justify-center flex-col gap-4">
             <h1 className="text-6xl font-bold text-red-600 tracking-tighter">GAME OVER</h1>
             <p className="text-cave-light">The caverns claimed you.</p>
-            <button onClick={onBack} className="mt-8 px-6 py-2 border border-white text-white hover:bg-white hover:text-black uppercase">Return to Menu</button>
+            {series ? <SeriesScoreboard series={series} ownId={ownId} onNextRound={onNextRound} /> : isRace && <RaceStandings lanes={lanes} ownLane={lane} />}
+            <EndButtons onLobby={onLobby} onBack={onBack} />
         </div>
       )}
 
@@ -122,9 +177,68 @@ export const RunnerView: React.FC<RunnerViewProps> = ({ gameState, onBack }) =>
         <div className="absolute inset-0 z-50 bg-green-900/90 flex items-center justify-center flex-col gap-4">
             <h1 className="text-6xl font-bold text-green-400 tracking-tighter">ESCAPED</h1>
             <p className="text-green-200">Time: {gameState.timeElapsed.toFixed(2)}s</p>
-            <button onClick={onBack} className="mt-8 px-6 py-2 border border-white text-white hover:bg-white hover:text-black uppercase">Return to Menu</button>
+            {series ? <SeriesScoreboard series={series} ownId={ownId} onNextRound={onNextRound} /> : isRace && <RaceStandings lanes={lanes} ownLane={lane} />}
+            <EndButtons onLobby={onLobby} onBack={onBack} />
         </div>
       )}
     </div>
   );
-};
\ No newline at end of file
+};
+
+const EndButtons: React.FC<{ onLobby?: () => void; onBack: () => void }> = ({ onLobby, onBack }) => (
+    <div className="mt-8 flex gap-4">
+        {onLobby && (
+            <button onClick={onLobby} className="px-6 py-2 border border-cave-light text-cave-light hover:text-white hover:border-white uppercase">Back to Lobby</button>
+        )}
+        <button onClick={onBack} className="px-6 py-2 border border-white text-white hover:bg-white hover:text-black uppercase">Return to Menu</button>
+    </div>
+);
+
+interface AbilityIndicatorProps {
+    label: string;
+    keyHint: string;
+    cooldown: number;
+    maxCooldown: number;
+    isActive: boolean;
+}
+
+const AbilityIndicator: React.FC<AbilityIndicatorProps> = ({ label, keyHint, cooldown, maxCooldown, isActive }) => {
+    const isReady = cooldown === 0;
+
+    return (
+        <div className={`relative w-20 h-16 border-2 bg-cave-800/80 backdrop-blur-sm flex flex-col items-center justify-center overflow-hidden ${isActive ? 'border-sky-300' : isReady ? 'border-cave-light' : 'border-cave-700'}`}>
+            {!isReady && (
+                <div
+                    className="absolute bottom-0 left-0 w-full bg-cave-700/60"
+                    style={{ height: `${cooldown / maxCooldown * 100}%` }}
+                />
+            )}
+            <span className={`relative text-xs font-bold tracking-widest uppercase ${isActive ? 'text-sky-300' : isReady ? 'text-white' : 'text-cave-light'}`}>{label}</span>
+            <span className="relative text-[10px] text-cave-light">[{keyHint}]</span>
+        </div>
+    );
+}
+
+const kbPerSecond = (bytes: number, ms: number) => (bytes / 1024 / (ms / 1000)).toFixed(1);
+
+const UplinkStats: React.FC<{ stats: SyncStats }> = ({ stats }) => {
+    const sent = stats.snapshotBytes + stats.levelBytes;
+    const saved = stats.jsonBytes > 0 ? Math.round((1 - sent / stats.jsonBytes) * 100) : 0;
+
+    return (
+        <div className="text-[10px] text-cave-light/70 uppercase tracking-widest text-right">
+            Uplink {kbPerSecond(sent, stats.elapsedMs)} KB/s
+            <span className="text-cave-light/40"> / JSON {kbPerSecond(stats.jsonBytes, stats.elapsedMs)} KB/s</span>
+            <span className="text-green-400/70"> (-{saved}%)</span>
+        </div>
+    );
+};
+
+const PredictionInfo: React.FC<{ stats: PredictionStats }> = ({ stats }) => (
+    <div className="text-[10px] text-cave-light/70 uppercase tracking-widest text-right">
+        Server match <span className="text-cave-light/40">/ {stats.pendingInputs} inputs in flight</span>
+        {stats.corrections > 0 && (
+            <span className="text-yellow-400/70"> / {stats.corrections} fixes ({stats.lastError.toFixed(1)}px)</span>
+        )}
+    </div>
+);
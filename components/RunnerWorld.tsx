@@ -0,0 +1,192 @@
+import React from 'react';
+import { GameState, Hazard, TrapType, PLAYER_WIDTH, PLAYER_HEIGHT } from '../types';
+import { platformKind } from '../services/platforms';
+import { TRAP_DEFINITIONS, hasEffect } from '../services/traps';
+import { PICKUP_LABELS, PICKUP_RADIUS, isDashing } from '../services/abilities';
+import { HAZARD_STYLES, LANE_STYLES, PLATFORM_STYLES } from './levelStyles';
+
+// Camera follow logic
+// We want the player to be roughly in the center left of the screen, but clamp at start/end
+export const followCamera = (playerX: number, viewportWidth: number) => Math.max(0, playerX - viewportWidth * 0.3);
+
+interface RunnerWorldProps {
+  gameState: GameState;
+  cameraX: number;
+  // Races: every lane's run, the other runners show up as ghosts
+  lanes?: (GameState | null)[];
+  lane?: number; // Whose run `gameState` is
+}
+
+// The level as the runner sees it, scrolled by the camera. Shared by the
+// runner's own screen and the spectator's runner camera.
+export const RunnerWorld: React.FC<RunnerWorldProps> = ({ gameState, cameraX, lanes = [], lane = 0 }) => {
+  const { player } = gameState;
+  const isFrozen = hasEffect(player, TrapType.FREEZE);
+  const isFlipped = hasEffect(player, TrapType.GRAVITY_FLIP);
+  const avatarColor = isFrozen
+    ? 'bg-cyan-200 shadow-[0_0_15px_rgba(165,243,252,0.8)] ring-2 ring-cyan-400'
+    : hasEffect(player, TrapType.REVERSE)
+      ? 'bg-purple-500 shadow-[0_0_15px_rgba(168,85,247,0.5)]'
+      : LANE_STYLES[lane].avatar;
+
+  // Telegraphed traps: platforms about to be hit flash, area traps show a reticle
+  const targetedPlatformIds = new Set(gameState.armingTraps.map(t => t.platformId).filter(Boolean));
+  const reticleTraps = gameState.armingTraps.filter(t => TRAP_DEFINITIONS[t.type].blastRadius);
+
+  return (
+    <div 
+      className="absolute top-0 left-0 w-full h-full transition-transform duration-75 ease-linear will-change-transform"
+      style={{ transform: `translateX(-${cameraX}px)` }}
+    >
+      {/* Level End Marker */}
+      <div 
+          className="absolute top-0 bottom-0 border-r-4 border-dashed border-green-500/30 flex items-center justify-center"
+          style={{ left: `${gameState.levelLength}px`, width: '100px' }}
+      >
+          <span className="text-green-500/50 -rotate-90 text-4xl font-bold tracking-[1em]">FINISH</span>
+      </div>
+
+      {/* Platforms */}
+      {gameState.level.map((platform) => (
+        <div
+          key={platform.id}
+          className={`absolute shadow-lg ${PLATFORM_STYLES[platformKind(platform)].world} ${platform.crumbleTimer !== undefined ? 'animate-pulse opacity-70' : ''} ${targetedPlatformIds.has(platform.id) ? 'ring-4 ring-red-500 animate-pulse' : ''}`}
+          style={{
+            left: `${platform.x}px`,
+            top: `${platform.y}px`,
+            width: `${platform.width}px`,
+            height: `${platform.height}px`,
+          }}
+        >
+          {/* Texture Detail */}
+          <div className="w-full h-full opacity-10 bg-[url('data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHdpZHRoPSI0IiBoZWlnaHQ9IjQiPgo8cmVjdCB3aWR0aD0iNCIgaGVpZ2h0PSI0IiBmaWxsPSIjZmZmIi8+CjxyZWN0IHdpZHRoPSIxIiBoZWlnaHQ9IjEiIGZpbGw9IiMwMDAiLz4KPC9zdmc+')]"></div>
+        </div>
+      ))}
+
+      {/* Hazards */}
+      {gameState.hazards.map((hazard) => (
+        <HazardBlock key={hazard.id} hazard={hazard} />
+      ))}
+
+      {/* Checkpoints */}
+      {gameState.checkpoints.map((cp) => {
+        const isActive = cp.id === gameState.activeCheckpointId;
+        return (
+          <div
+            key={cp.id}
+            className="absolute flex justify-center"
+            style={{
+              left: `${cp.x}px`,
+              top: `${cp.y}px`,
+              width: `${cp.width}px`,
+              height: `${cp.height}px`,
+            }}
+          >
+            <div className={`w-1 h-full ${isActive ? 'bg-green-400' : 'bg-cave-light/60'}`} />
+            <div className={`absolute top-0 left-1/2 w-5 h-3 ${isActive ? 'bg-green-400 shadow-[0_0_12px_#4ade80]' : 'bg-cave-700'}`} />
+          </div>
+        );
+      })}
+
+      {/* Placed Traps (barely visible: spotting them is the runner's job) */}
+      {gameState.placedTraps.map((trap) => (
+        <div
+          key={trap.id}
+          className="absolute w-3 h-3 -translate-x-1/2 -translate-y-1/2 rotate-45 border border-red-500/40 animate-pulse"
+          style={{ left: `${trap.x}px`, top: `${trap.y}px` }}
+        />
+      ))}
+
+      {/* Pickups */}
+      {gameState.pickups.map((pickup) => (
+        <div
+          key={pickup.id}
+          className={`absolute -translate-x-1/2 -translate-y-1/2 rounded-full border-2 flex items-center justify-center text-sm font-bold animate-bounce ${pickup.kind === 'EXTRA_REVIVE' ? 'border-ui-accent text-ui-accent bg-red-950/60' : 'border-yellow-400 text-yellow-300 bg-yellow-950/60'}`}
+          style={{
+            left: `${pickup.x}px`,
+            top: `${pickup.y}px`,
+            width: `${PICKUP_RADIUS * 1.5}px`,
+            height: `${PICKUP_RADIUS * 1.5}px`,
+          }}
+          title={PICKUP_LABELS[pickup.kind].label}
+        >
+          {PICKUP_LABELS[pickup.kind].icon}
+        </div>
+      ))}
+
+      {/* Area Trap Reticles */}
+      {reticleTraps.map((trap) => {
+        const radius = TRAP_DEFINITIONS[trap.type].blastRadius!;
+        return (
+          <div
+            key={trap.id}
+            className="absolute -translate-x-1/2 -translate-y-1/2 rounded-full border-4 border-dashed border-red-500 bg-red-500/10 flex items-center justify-center animate-pulse"
+            style={{ left: `${trap.x}px`, top: `${trap.y}px`, width: `${radius * 2}px`, height: `${radius * 2}px` }}
+          >
+            <span className="text-red-400 font-bold text-lg">{(trap.remaining / 1000).toFixed(1)}</span>
+          </div>
+        );
+      })}
+
+      {/* Rival Runners (other lanes: nothing here can touch them) */}
+      {lanes.map((rival, i) => rival && i !== lane && rival.gameStatus !== 'LOST' && (
+          <div
+          key={i}
+          className={`absolute opacity-40 pointer-events-none ${LANE_STYLES[i].avatar}`}
+          style={{
+              left: `${rival.player.x}px`,
+              top: `${rival.player.y}px`,
+              width: `${PLAYER_WIDTH}px`,
+              height: `${PLAYER_HEIGHT}px`,
+          }}
+          />
+      ))}
+
+      {/* Player Character */}
+      {gameState.gameStatus !== 'LOST' && (
+          <div
+          className={`absolute transition-colors duration-200 ${gameState.player.invulnerableTimer > 0 ? 'animate-pulse' : ''} ${isDashing(player) ? 'opacity-70 blur-[1px]' : ''} ${avatarColor}`}
+          style={{
+              left: `${gameState.player.x}px`,
+              top: `${gameState.player.y}px`,
+              width: `${PLAYER_WIDTH}px`,
+              height: `${PLAYER_HEIGHT}px`,
+              // Simple animation tilt based on velocity
+              transform: `skewX(${gameState.player.vx * -2}deg)${isFlipped ? ' rotate(180deg)' : ''}`
+          }}
+          >
+          <div className="absolute top-2 left-1/2 -translate-x-1/2 w-6 h-1 bg-black/20"></div> {/* Visor */}
+          {player.abilities.shieldActive && (
+              <div className="absolute -inset-3 rounded-full border-2 border-sky-300 bg-sky-300/10 shadow-[0_0_15px_rgba(125,211,252,0.6)]" />
+          )}
+          </div>
+      )}
+
+      {/* Effects/Particles could go here */}
+    </div>
+  );
+};
+
+const HazardBlock: React.FC<{ hazard: Hazard }> = ({ hazard }) => {
+    const spikeCount = Math.max(1, Math.floor(hazard.width / 16));
+
+    return (
+        <div
+            className={`absolute ${HAZARD_STYLES[hazard.kind].world}`}
+            style={{
+                left: `${hazard.x}px`,
+                top: `${hazard.y}px`,
+                width: `${hazard.width}px`,
+                height: `${hazard.height}px`,
+            }}
+        >
+            {hazard.kind === 'SPIKES' && Array.from({ length: spikeCount }).map((_, i) => (
+                <div
+                    key={i}
+                    className="flex-1 h-full bg-red-500"
+                    style={{ clipPath: 'polygon(50% 0, 100% 100%, 0 100%)' }}
+                />
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,65 @@
+import React from 'react';
+import { Series } from '../types';
+import {
+  currentRound, isSeriesOver, playerName, roundPoints, roundWinner, runnerOf, seriesScores, seriesWinner,
+} from '../services/series';
+
+interface SeriesScoreboardProps {
+  series: Series;
+  ownId?: string; // Absent for spectators
+  onNextRound?: () => void; // Offered when it's our turn to run the next round
+}
+
+// Between rounds and at the end of a series: every round so far, the totals,
+// and who starts the next one
+export const SeriesScoreboard: React.FC<SeriesScoreboardProps> = ({ series, ownId, onNextRound }) => {
+  const next = currentRound(series);
+  const winner = seriesWinner(series);
+  const isOurTurn = !isSeriesOver(series) && runnerOf(series, next) === ownId;
+
+  return (
+    <div className="w-[28rem] border border-cave-700 bg-cave-900/80 p-4 font-mono text-xs uppercase tracking-widest">
+      <div className="flex justify-between text-cave-light border-b border-cave-700 pb-1 mb-2">
+        <span>Best of {series.rounds}</span>
+        <span>{winner ? 'Final' : `Round ${next} next`}</span>
+      </div>
+
+      {series.results.map(result => (
+        <div key={result.round} className="flex items-center gap-3 py-1">
+          <span className="w-6 text-cave-light">{result.round}.</span>
+          <span className="flex-1 text-white">{playerName(series, runnerOf(series, result.round), ownId)} ran</span>
+          <span className={result.status === 'WON' ? 'text-green-400' : 'text-red-500'}>
+            {result.status === 'WON' ? 'Escaped' : 'Eliminated'}
+          </span>
+          <span className="w-16 text-right text-white">{result.time.toFixed(2)}s</span>
+          <span className="w-8 text-right text-cave-light" title="Revives used">{result.revivesUsed}R</span>
+          <span className="w-24 text-right text-ui-accent">
+            +{roundPoints(result)} {playerName(series, roundWinner(series, result), ownId)}
+          </span>
+        </div>
+      ))}
+
+      <div className="flex justify-around border-t border-cave-700 pt-2 mt-2">
+        {seriesScores(series).map(score => (
+          <div key={score.player} className={`text-center ${score.player === winner ? 'text-green-400 font-bold' : 'text-white'}`}>
+            <div>{playerName(series, score.player, ownId)}</div>
+            <div className="text-lg">{score.wins} W</div>
+            <div className="text-cave-light">{score.points} pts</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 text-center">
+        {winner ? (
+          <span className="text-lg font-bold text-white">{playerName(series, winner, ownId)} {winner === ownId ? 'win' : 'wins'} the series</span>
+        ) : isOurTurn && onNextRound ? (
+          <button onClick={onNextRound} className="w-full py-2 border-2 border-white text-white font-bold hover:bg-white hover:text-black">
+            Start round {next} (you run)
+          </button>
+        ) : (
+          <span className="text-cave-light animate-pulse">Waiting for {ownId ? 'opponent' : 'the players'}...</span>
+        )}
+      </div>
+    </div>
+  );
+};
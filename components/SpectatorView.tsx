@@ -0,0 +1,151 @@
+import React from 'react';
+import { GameState, Series } from '../types';
+import { TRAP_DEFINITIONS } from '../services/traps';
+import { LinkStats } from '../services/linkMonitor';
+import { TimelineEvent, TimelineKind, TrapFeedEntry } from '../services/spectator';
+import { isRaceOver, laneName } from '../services/race';
+import { LANE_STYLES } from './levelStyles';
+import { Minimap } from './Minimap';
+import { NetStatsOverlay } from './NetStatsOverlay';
+import { RaceStandings } from './RaceStandings';
+import { SeriesScoreboard } from './SeriesScoreboard';
+import { REJECTION_TEXT } from './TrapperView';
+import { RunnerWorld, followCamera } from './RunnerWorld';
+
+interface SpectatorViewProps {
+  gameState: GameState;
+  trapFeed: TrapFeedEntry[];
+  timeline: TimelineEvent[];
+  onBack: () => void;
+  netStats?: LinkStats | null; // Shown when the overlay is toggled on
+  playoutDelay?: number; // ms the jitter buffer holds the view back
+  isLinkDown?: boolean; // Nothing heard from the players for a while
+  // Races: every runner's run; the camera follows `focusLane`, which is `gameState`
+  lanes?: (GameState | null)[];
+  focusLane?: number;
+  onFocusLane?: (lane: number) => void;
+  series?: Series | null; // Series: the tally so far
+}
+
+const TIMELINE_TEXT: Record<TimelineKind, { label: string; color: string }> = {
+  REVIVE_USED: { label: 'Revive used', color: 'text-ui-accent' },
+  REVIVE_GAINED: { label: 'Revive picked up', color: 'text-green-400' },
+  ELIMINATED: { label: 'Eliminated', color: 'text-red-500' },
+  ESCAPED: { label: 'Escaped', color: 'text-green-400' },
+};
+
+// Minimap strip along the bottom, same scale as the trapper's
+const MAP_SCALE = 0.15;
+
+// Read-only broadcast view: the runner's camera with the trapper's map under
+// it, plus what each side did so far
+export const SpectatorView: React.FC<SpectatorViewProps> = ({ gameState, trapFeed, timeline, onBack, netStats, playoutDelay, isLinkDown, lanes = [], focusLane = 0, onFocusLane, series }) => {
+  const isRace = lanes.length > 1;
+  // In a race, mark whose run each feed line is about
+  const laneTag = (lane: number) => isRace && <span className={LANE_STYLES[lane].text}>{lane + 1} </span>;
+  const viewportWidth = typeof window !== 'undefined' ? window.innerWidth : 1000;
+  const cameraX = followCamera(gameState.player.x, viewportWidth);
+  const mapOffset = Math.max(0, (gameState.player.x * MAP_SCALE) - (viewportWidth / 2));
+
+  return (
+    <div className="relative w-full h-screen overflow-hidden bg-cave-900 font-mono">
+      <RunnerWorld gameState={gameState} cameraX={cameraX} lanes={lanes} lane={focusLane} />
+
+      {/* HUD Layer */}
+      <div className="absolute top-0 left-0 w-full p-6 flex justify-between items-start pointer-events-none z-50">
+        <div className="flex flex-col gap-2">
+          <div className="bg-cave-800/80 border border-cave-700 px-4 py-2 text-2xl font-bold tracking-widest text-white backdrop-blur-sm">
+            TIME: {gameState.timeElapsed.toFixed(1)}s
+          </div>
+          <div className="bg-cave-800/80 border border-cave-700 px-4 py-1 text-xs tracking-widest text-cave-light backdrop-blur-sm uppercase">
+            Revives {gameState.revives} / Energy {Math.floor(gameState.trapper.energy)}
+          </div>
+          {isLinkDown && (
+            <div className="text-yellow-400 font-bold text-sm tracking-widest animate-pulse">SIGNAL LOST</div>
+          )}
+        </div>
+
+        <div className="flex flex-col items-end gap-2 pointer-events-auto">
+          <button
+            onClick={onBack}
+            className="bg-cave-800/80 border border-cave-700 px-4 py-1 text-xs text-red-400 hover:text-white hover:bg-red-900/50 backdrop-blur-sm transition-colors uppercase tracking-widest"
+          >
+            [ Stop Watching ]
+          </button>
+          <div className="text-[10px] text-cave-light uppercase tracking-widest">Spectating</div>
+          {isRace && (
+            <div className="flex gap-2 text-[10px] uppercase tracking-widest">
+              {lanes.map((state, lane) => (
+                <button
+                  key={lane}
+                  onClick={() => onFocusLane?.(lane)}
+                  disabled={!state}
+                  className={`px-2 py-1 border bg-cave-800/80 ${LANE_STYLES[lane].text} ${lane === focusLane ? 'border-white' : 'border-cave-700 opacity-60 hover:opacity-100'}`}
+                >
+                  {laneName(lane)}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Feeds */}
+      <div className="absolute top-36 right-6 w-64 flex flex-col gap-4 pointer-events-none z-50 text-[10px] uppercase tracking-widest">
+        <FeedPanel title="Traps">
+          {trapFeed.length === 0 && <span className="text-cave-700">None yet</span>}
+          {[...trapFeed].reverse().map(entry => (
+            <div key={entry.id} className={`flex justify-between gap-2 ${entry.rejected ? 'text-cave-light/50 line-through' : 'text-white'}`}>
+              <span>{laneTag(entry.lane)}{TRAP_DEFINITIONS[entry.type].icon} {TRAP_DEFINITIONS[entry.type].label}{entry.aimed ? ' (placed)' : ''}</span>
+              <span className="text-cave-light" title={entry.rejected && REJECTION_TEXT[entry.rejected]}>{entry.time.toFixed(1)}s</span>
+            </div>
+          ))}
+        </FeedPanel>
+        <FeedPanel title="Run">
+          {timeline.length === 0 && <span className="text-cave-700">Clean so far</span>}
+          {timeline.map((event, i) => (
+            <div key={i} className={`flex justify-between gap-2 ${TIMELINE_TEXT[event.kind].color}`}>
+              <span>{laneTag(event.lane)}{TIMELINE_TEXT[event.kind].label}</span>
+              <span className="text-cave-light">{event.time.toFixed(1)}s</span>
+            </div>
+          ))}
+        </FeedPanel>
+      </div>
+
+      {/* Minimap Strip */}
+      <div className="absolute bottom-0 left-0 w-full h-40 bg-black/70 border-t-2 border-cave-700 overflow-hidden z-40">
+        <Minimap gameState={gameState} lanes={lanes} lane={focusLane} scale={MAP_SCALE} offset={mapOffset} className="pointer-events-none" />
+      </div>
+
+      {netStats && <NetStatsOverlay stats={netStats} playoutDelay={playoutDelay} />}
+
+      {/* Game Over / Win Screens */}
+      {isRace && isRaceOver(lanes) && (
+        <div className="absolute inset-0 z-[55] flex items-center justify-center flex-col gap-4 bg-black/80">
+          <h1 className="text-6xl font-bold tracking-tighter text-white">RACE OVER</h1>
+          <RaceStandings lanes={lanes} />
+          <button onClick={onBack} className="mt-8 px-6 py-2 border border-white text-white hover:bg-white hover:text-black uppercase">Return to Menu</button>
+        </div>
+      )}
+      {!isRace && gameState.gameStatus !== 'PLAYING' && gameState.gameStatus !== 'IDLE' && (
+        <div className={`absolute inset-0 z-[55] flex items-center justify-center flex-col gap-4 ${gameState.gameStatus === 'WON' ? 'bg-green-900/90' : 'bg-black/80'}`}>
+          <h1 className={`text-6xl font-bold tracking-tighter ${gameState.gameStatus === 'WON' ? 'text-green-400' : 'text-red-600'}`}>
+            {gameState.gameStatus === 'WON' ? 'RUNNER ESCAPED' : 'RUNNER ELIMINATED'}
+          </h1>
+          <p className="text-cave-light">
+            Time: {gameState.timeElapsed.toFixed(2)}s / {trapFeed.filter(entry => !entry.rejected).length} traps accepted
+          </p>
+          {series && <SeriesScoreboard series={series} />}
+          <button onClick={onBack} className="mt-8 px-6 py-2 border border-white text-white hover:bg-white hover:text-black uppercase">Return to Menu</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const FeedPanel: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+    <div className="bg-cave-800/80 border border-cave-700 p-3 backdrop-blur-sm flex flex-col gap-1">
+        <span className="text-cave-light font-bold border-b border-cave-700 pb-1 mb-1">{title}</span>
+        {children}
+    </div>
+);
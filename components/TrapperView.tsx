@@ -1,46 +1,98 @@
-import React, { useEffect, useState } from 'react';
-import { GameState, Platform, TrapType } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { GameState, Point, Series, TrapRejection, TrapRejectReason, TrapType, TRAP_ENERGY_MAX } from '../types';
+import { TRAP_DEFINITIONS, TRAP_TYPES, canAfford, canPlaceTrap, isOnCooldown } from '../services/traps';
+import { isDashing } from '../services/abilities';
+import { LinkStats } from '../services/linkMonitor';
+import { isRaceOver, laneName } from '../services/race';
+import { LANE_STYLES } from './levelStyles';
+import { Minimap } from './Minimap';
+import { NetStatsOverlay } from './NetStatsOverlay';
+import { RaceStandings } from './RaceStandings';
+import { SeriesScoreboard } from './SeriesScoreboard';
 
 interface TrapperViewProps {
   gameState: GameState;
   onBack: () => void;
-  sendTrap: (type: TrapType) => void;
+  sendTrap: (type: TrapType, position?: Point) => void;
+  lastRejection: TrapRejection | null;
+  netStats?: LinkStats | null; // Shown when the overlay is toggled on
+  playoutDelay?: number; // ms the jitter buffer holds the view back
+  isLinkDown?: boolean;
+  isResuming?: boolean;
+  onReconnect?: () => void;
+  // Races: every runner's run. `gameState` is the targeted one; traps go to it.
+  lanes?: (GameState | null)[];
+  focusLane?: number;
+  onFocusLane?: (lane: number) => void;
+  // Series: the tally, our client ID in it, and the way to the next round
+  series?: Series | null;
+  ownId?: string;
+  onNextRound?: () => void;
+  onLobby?: () => void; // Keeps the connection, unlike onBack
 }
 
-export const TrapperView: React.FC<TrapperViewProps> = ({ gameState, sendTrap, onBack }) => {
-  const [cooldowns, setCooldowns] = useState<Record<TrapType, number>>({
-    [TrapType.BOMB]: 0,
-    [TrapType.CRACK]: 0,
-    [TrapType.REVERSE]: 0,
-  });
-
-  const COOLDOWN_TIMES = {
-    [TrapType.BOMB]: 3000,
-    [TrapType.CRACK]: 5000,
-    [TrapType.REVERSE]: 8000,
+export const REJECTION_TEXT: Record<TrapRejectReason, string> = {
+  UNKNOWN_TRAP: 'Unknown trap',
+  COOLDOWN: 'Still on cooldown',
+  ENERGY: 'Not enough energy',
+  INVALID_PLACEMENT: 'Invalid placement',
+};
+
+export const TrapperView: React.FC<TrapperViewProps> = ({ gameState, sendTrap, lastRejection, netStats, playoutDelay, isLinkDown, isResuming, onReconnect, onBack, lanes = [], focusLane = 0, onFocusLane, series, ownId, onNextRound, onLobby }) => {
+  // Energy and cooldowns come from the runner's synced state; the runner enforces them.
+  // In a race every runner keeps their own, so each target has its own budget.
+  const { trapper } = gameState;
+  const isRace = lanes.length > 1;
+  const isAvailable = (type: TrapType) => !isOnCooldown(trapper, type) && canAfford(trapper, type);
+
+  const [visibleRejection, setVisibleRejection] = useState<TrapRejection | null>(null);
+  useEffect(() => {
+    if (!lastRejection) return;
+    setVisibleRejection(lastRejection);
+    const timeout = setTimeout(() => setVisibleRejection(null), 2500);
+    return () => clearTimeout(timeout);
+  }, [lastRejection]);
+
+  // PLACE mode: buttons arm a trap, then a click on the minimap drops it at that spot
+  const [placeMode, setPlaceMode] = useState(false);
+  const [armedType, setArmedType] = useState<TrapType | null>(null);
+  const [hoverPoint, setHoverPoint] = useState<Point | null>(null);
+  const worldRef = useRef<HTMLDivElement>(null);
+
+  const fireTrap = (type: TrapType, position?: Point) => {
+    if (!isAvailable(type)) return;
+    if (gameState.gameStatus !== 'PLAYING') return;
+
+    sendTrap(type, position);
   };
 
   const handleTrap = (type: TrapType) => {
-    if (cooldowns[type] > 0) return;
-    if (gameState.gameStatus !== 'PLAYING') return;
+    if (placeMode) {
+      setArmedType(prev => (prev === type ? null : type));
+    } else {
+      fireTrap(type);
+    }
+  };
 
-    sendTrap(type);
-    setCooldowns(prev => ({ ...prev, [type]: COOLDOWN_TIMES[type] }));
+  // Minimap pixel -> world coordinates. The bounding rect already includes the scroll transform.
+  const toWorld = (e: React.PointerEvent | React.MouseEvent): Point | null => {
+    const rect = worldRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    return {
+      x: (e.clientX - rect.left) / scale,
+      y: (e.clientY - rect.top) / scale,
+    };
   };
 
-  // Cooldown tick
-  useEffect(() => {
-    const interval = setInterval(() => {
-      setCooldowns(prev => {
-        const next = { ...prev };
-        (Object.keys(next) as TrapType[]).forEach(key => {
-          if (next[key] > 0) next[key] = Math.max(0, next[key] - 100);
-        });
-        return next;
-      });
-    }, 100);
-    return () => clearInterval(interval);
-  }, []);
+  const handleMapClick = (e: React.MouseEvent) => {
+    if (!armedType) return;
+    const point = toWorld(e);
+    if (!point || !canPlaceTrap(armedType, gameState.level, point)) return;
+    fireTrap(armedType, point);
+    setArmedType(null);
+  };
+
+  const isHoverValid = !!armedType && !!hoverPoint && canPlaceTrap(armedType, gameState.level, hoverPoint);
 
   // Minimap scaling
   // We want to fit the relevant part of the level (near player) into the view, or scroll it.
@@ -54,13 +106,52 @@ export const TrapperView: React.FC<TrapperViewProps> = ({ gameState, sendTrap, o
   const mapOffset = Math.max(0, (gameState.player.x * scale) - (viewportWidth / 2));
 
   return (
-    <div className="w-full h-screen bg-black flex flex-col">
+    <div className="relative w-full h-screen bg-black flex flex-col">
+      {netStats && <NetStatsOverlay stats={netStats} playoutDelay={playoutDelay} />}
+
+      {(isLinkDown || isResuming) && (
+        <div className="absolute inset-0 z-[55] flex items-center justify-center bg-black/70">
+          <div className="border-2 border-ui-accent bg-cave-900 px-8 py-6 text-center">
+            <div className="text-2xl font-bold tracking-widest text-ui-accent">
+              {isResuming ? 'RESUMING SESSION...' : 'LINK LOST'}
+            </div>
+            <div className="mt-2 mb-4 text-xs uppercase tracking-widest text-cave-light">
+              {isResuming ? 'Waiting for the runner to resync' : 'The run is paused on the runner\'s side'}
+            </div>
+            <button
+              onClick={onReconnect}
+              disabled={isResuming}
+              className="border border-ui-accent px-4 py-2 text-xs uppercase tracking-widest text-ui-accent hover:bg-ui-accent hover:text-black disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-ui-accent transition-colors"
+            >
+              [ Reconnect ]
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Minimap Container */}
       <div className="relative flex-1 w-full bg-cave-900 overflow-hidden border-b-2 border-cave-700">
         <div className="absolute top-4 left-4 text-xs text-cave-light uppercase tracking-widest z-10">
-          Tracking Subject #01
+          Tracking Subject #0{focusLane + 1}
         </div>
 
+        {/* Target Selector */}
+        {isRace && (
+          <div className="absolute top-10 left-4 z-20 flex gap-2 text-[10px] uppercase tracking-widest">
+            {lanes.map((state, lane) => (
+              <button
+                key={lane}
+                onClick={() => onFocusLane?.(lane)}
+                disabled={!state}
+                className={`flex items-center gap-2 px-2 py-1 border bg-black/50 ${lane === focusLane ? 'border-ui-accent text-white' : 'border-cave-700 text-cave-light hover:text-white'} ${state && state.gameStatus !== 'PLAYING' ? 'line-through opacity-50' : ''}`}
+              >
+                <span className={`w-2 h-2 rounded-full ${LANE_STYLES[lane].dot}`} />
+                {laneName(lane)}
+              </button>
+            ))}
+          </div>
+        )}
+
         <button 
           onClick={onBack}
           className="absolute top-4 right-4 z-20 text-xs text-red-500 hover:text-white border border-red-500/50 hover:border-white px-2 py-1 uppercase tracking-widest transition-colors bg-black/50"
@@ -69,59 +160,61 @@ export const TrapperView: React.FC<TrapperViewProps> = ({ gameState, sendTrap, o
         </button>
 
         {/* The World (Scaled) */}
-        <div 
-          className="absolute top-1/2 left-0 h-full w-full transition-transform duration-75 linear"
-          style={{ 
-              transform: `translateY(-50%) translateX(${-mapOffset}px)`, 
-              width: `${gameState.levelLength * scale}px` 
-          }}
+        <Minimap
+          gameState={gameState}
+          lanes={lanes}
+          lane={focusLane}
+          scale={scale}
+          offset={mapOffset}
+          worldRef={worldRef}
+          className={armedType ? 'cursor-crosshair' : ''}
+          onPointerMove={(e) => setHoverPoint(toWorld(e))}
+          onPointerLeave={() => setHoverPoint(null)}
+          onClick={handleMapClick}
         >
-             {/* Base line */}
-            <div className="absolute top-[300px] w-full border-b border-cave-800/30"></div>
-
-             {/* Platforms */}
-             {gameState.level.map(p => (
-                <div 
-                    key={p.id}
-                    className="absolute bg-cave-700/60"
-                    style={{
-                        left: `${p.x * scale}px`,
-                        top: `${p.y * scale}px`,
-                        width: `${p.width * scale}px`,
-                        height: `${p.height * scale}px`,
-                    }}
-                />
-             ))}
-
-             {/* Player Dot */}
-             {gameState.gameStatus !== 'LOST' && (
-                 <div 
-                    className="absolute w-3 h-3 bg-red-600 rounded-full shadow-[0_0_10px_#ff0000] animate-pulse"
-                    style={{
-                        left: `${gameState.player.x * scale}px`,
-                        top: `${gameState.player.y * scale}px`,
-                    }}
-                 />
-             )}
-        </div>
+          {/* Placement Preview */}
+          {armedType && hoverPoint && (
+            <div 
+                className={`absolute -translate-x-1/2 -translate-y-1/2 w-6 h-6 rounded-full border-2 flex items-center justify-center text-xs pointer-events-none ${isHoverValid ? 'border-green-400' : 'border-red-600 opacity-60'}`}
+                style={{
+                    left: `${hoverPoint.x * scale}px`,
+                    top: `${hoverPoint.y * scale}px`,
+                }}
+            >
+                {TRAP_DEFINITIONS[armedType].icon}
+            </div>
+          )}
+        </Minimap>
         
         {/* Scan lines effect overlay */}
         <div className="absolute inset-0 bg-[linear-gradient(rgba(18,16,16,0)_50%,rgba(0,0,0,0.25)_50%),linear-gradient(90deg,rgba(255,0,0,0.06),rgba(0,255,0,0.02),rgba(0,0,255,0.06))] bg-[length:100%_4px,3px_100%] pointer-events-none"></div>
 
-        {gameState.gameStatus === 'WON' && (
+        {isRace && isRaceOver(lanes) && (
+          <div className="absolute inset-0 flex items-center justify-center bg-black/80 z-30">
+             <div className="flex flex-col items-center gap-4">
+                <h2 className="text-4xl font-bold text-white">RACE OVER</h2>
+                <RaceStandings lanes={lanes} />
+                <EndButtons onLobby={onLobby} onBack={onBack} />
+             </div>
+          </div>
+        )}
+
+        {!isRace && gameState.gameStatus === 'WON' && (
           <div className="absolute inset-0 flex items-center justify-center bg-black/80 z-30">
-             <div className="text-center">
-                <h2 className="text-4xl font-bold text-red-500 mb-4">SUBJECT ESCAPED</h2>
-                <button onClick={onBack} className="border border-white px-4 py-2 text-white hover:bg-white hover:text-black">RETURN</button>
+             <div className="flex flex-col items-center gap-4">
+                <h2 className="text-4xl font-bold text-red-500">SUBJECT ESCAPED</h2>
+                {series && <SeriesScoreboard series={series} ownId={ownId} onNextRound={onNextRound} />}
+                <EndButtons onLobby={onLobby} onBack={onBack} />
              </div>
           </div>
         )}
 
-        {gameState.gameStatus === 'LOST' && (
+        {!isRace && gameState.gameStatus === 'LOST' && (
           <div className="absolute inset-0 flex items-center justify-center bg-black/80 z-30">
-             <div className="text-center">
-                <h2 className="text-4xl font-bold text-green-500 mb-4">SUBJECT ELIMINATED</h2>
-                <button onClick={onBack} className="border border-white px-4 py-2 text-white hover:bg-white hover:text-black">RETURN</button>
+             <div className="flex flex-col items-center gap-4">
+                <h2 className="text-4xl font-bold text-green-500">SUBJECT ELIMINATED</h2>
+                {series && <SeriesScoreboard series={series} ownId={ownId} onNextRound={onNextRound} />}
+                <EndButtons onLobby={onLobby} onBack={onBack} />
              </div>
           </div>
         )}
@@ -129,47 +222,100 @@ export const TrapperView: React.FC<TrapperViewProps> = ({ gameState, sendTrap, o
       </div>
 
       {/* Controls Area */}
-      <div className="h-64 bg-cave-900 p-8 flex items-center justify-center gap-8">
-        <TrapButton 
-            type={TrapType.BOMB} 
-            label="BOMB" 
-            icon="💣" 
-            cooldown={cooldowns[TrapType.BOMB]} 
-            maxCooldown={COOLDOWN_TIMES[TrapType.BOMB]}
-            onClick={() => handleTrap(TrapType.BOMB)}
-        />
-        <TrapButton 
-            type={TrapType.CRACK} 
-            label="CRACK" 
-            icon="🔨" 
-            cooldown={cooldowns[TrapType.CRACK]} 
-            maxCooldown={COOLDOWN_TIMES[TrapType.CRACK]}
-            onClick={() => handleTrap(TrapType.CRACK)}
-        />
-        <TrapButton 
-            type={TrapType.REVERSE} 
-            label="REVERSE" 
-            icon="😵" 
-            cooldown={cooldowns[TrapType.REVERSE]} 
-            maxCooldown={COOLDOWN_TIMES[TrapType.REVERSE]}
-            onClick={() => handleTrap(TrapType.REVERSE)}
-        />
+      <div className="h-72 bg-cave-900 p-6 flex items-center justify-center gap-8">
+        <div className="flex flex-col gap-2 w-32 text-[10px] uppercase tracking-widest">
+            <span className="text-cave-light">Energy</span>
+            <div className="relative h-40 w-6 border border-cave-light/50 bg-black">
+                <div 
+                    className="absolute bottom-0 left-0 w-full bg-ui-accent transition-all duration-100"
+                    style={{ height: `${trapper.energy / TRAP_ENERGY_MAX * 100}%` }}
+                />
+            </div>
+            <span className="text-white text-sm font-bold">{Math.floor(trapper.energy)}/{TRAP_ENERGY_MAX}</span>
+            {visibleRejection && (
+                <span className="text-red-500 normal-case tracking-normal animate-pulse">
+                    {TRAP_DEFINITIONS[visibleRejection.trapType]?.label ?? visibleRejection.trapType} refused: {REJECTION_TEXT[visibleRejection.reason]}
+                </span>
+            )}
+        </div>
+        <div className="flex flex-col gap-2 text-[10px] uppercase tracking-widest">
+            <span className="text-cave-light">Deploy Mode</span>
+            <button 
+                onClick={() => { setPlaceMode(false); setArmedType(null); }}
+                className={`px-3 py-1 border ${!placeMode ? 'border-ui-accent text-ui-accent' : 'border-cave-700 text-cave-light hover:text-white'}`}
+            >
+                Direct
+            </button>
+            <button 
+                onClick={() => setPlaceMode(true)}
+                className={`px-3 py-1 border ${placeMode ? 'border-ui-accent text-ui-accent' : 'border-cave-700 text-cave-light hover:text-white'}`}
+            >
+                Place
+            </button>
+            {placeMode && (
+                <span className="text-cave-light normal-case tracking-normal w-28">
+                    {armedType ? 'Click the map to place.' : 'Pick a trap.'}
+                </span>
+            )}
+        </div>
+        <div className="flex flex-col gap-2 w-32 text-[10px] uppercase tracking-widest">
+            <span className="text-cave-light">Subject Kit</span>
+            <SubjectAbility 
+                label="Dash" 
+                status={isDashing(gameState.player) ? 'ACTIVE' : gameState.player.abilities.dashCooldown > 0 ? `${(gameState.player.abilities.dashCooldown / 1000).toFixed(1)}s` : 'READY'} 
+                isThreat={gameState.player.abilities.dashCooldown === 0}
+            />
+            <SubjectAbility 
+                label="Shield" 
+                status={gameState.player.abilities.shieldActive ? 'UP' : gameState.player.abilities.shieldCooldown > 0 ? `${(gameState.player.abilities.shieldCooldown / 1000).toFixed(1)}s` : 'READY'} 
+                isThreat={gameState.player.abilities.shieldActive || gameState.player.abilities.shieldCooldown === 0}
+            />
+            <SubjectAbility label="Revives" status={`${gameState.revives}`} isThreat={false} />
+        </div>
+        <div className="grid grid-cols-4 gap-3">
+            {TRAP_TYPES.map(type => (
+                <TrapButton 
+                    key={type}
+                    type={type} 
+                    label={TRAP_DEFINITIONS[type].label} 
+                    icon={TRAP_DEFINITIONS[type].icon} 
+                    cost={TRAP_DEFINITIONS[type].cost}
+                    isArmed={armedType === type}
+                    isAffordable={canAfford(trapper, type)}
+                    cooldown={trapper.cooldowns[type] ?? 0} 
+                    maxCooldown={TRAP_DEFINITIONS[type].cooldown}
+                    onClick={() => handleTrap(type)}
+                />
+            ))}
+        </div>
       </div>
     </div>
   );
 };
 
+const EndButtons: React.FC<{ onLobby?: () => void; onBack: () => void }> = ({ onLobby, onBack }) => (
+    <div className="flex gap-4">
+        {onLobby && (
+            <button onClick={onLobby} className="border border-cave-light px-4 py-2 text-cave-light hover:text-white hover:border-white">LOBBY</button>
+        )}
+        <button onClick={onBack} className="border border-white px-4 py-2 text-white hover:bg-white hover:text-black">RETURN</button>
+    </div>
+);
+
 interface TrapButtonProps {
     type: TrapType;
     label: string;
     icon: string;
     cooldown: number;
     maxCooldown: number;
+    cost: number;
+    isArmed: boolean;
+    isAffordable: boolean;
     onClick: () => void;
 }
 
-const TrapButton: React.FC<TrapButtonProps> = ({ label, icon, cooldown, maxCooldown, onClick }) => {
-    const isReady = cooldown === 0;
+const TrapButton: React.FC<TrapButtonProps> = ({ label, icon, cooldown, maxCooldown, cost, isArmed, isAffordable, onClick }) => {
+    const isReady = cooldown === 0 && isAffordable;
     const progress = 100 - ((cooldown / maxCooldown) * 100);
 
     return (
@@ -177,8 +323,9 @@ const TrapButton: React.FC<TrapButtonProps> = ({ label, icon, cooldown, maxCoold
             onClick={onClick}
             disabled={!isReady}
             className={`
-                group relative w-32 h-32 flex flex-col items-center justify-center gap-2
+                group relative w-24 h-24 flex flex-col items-center justify-center gap-1
                 border-2 transition-all duration-100 active:scale-95
+                ${isArmed ? 'ring-2 ring-ui-accent ring-offset-2 ring-offset-cave-900' : ''}
                 ${isReady 
                     ? 'border-cave-light bg-cave-800 hover:border-ui-accent hover:bg-cave-700 cursor-pointer' 
                     : 'border-cave-800 bg-cave-900 opacity-50 cursor-not-allowed'}
@@ -192,11 +339,19 @@ const TrapButton: React.FC<TrapButtonProps> = ({ label, icon, cooldown, maxCoold
                 />
             )}
 
-            <span className="text-4xl filter drop-shadow-lg grayscale group-hover:grayscale-0 transition-all">{icon}</span>
+            <span className="text-3xl filter drop-shadow-lg grayscale group-hover:grayscale-0 transition-all">{icon}</span>
             <span className={`text-xs font-bold tracking-widest ${isReady ? 'text-ui-text' : 'text-cave-light'}`}>{label}</span>
-            
+            <span className={`absolute top-1 left-2 text-[10px] ${isAffordable ? 'text-yellow-400' : 'text-red-500'}`}>⚡{cost}</span>
+
             {/* Available indicator */}
             {isReady && <div className="absolute top-2 right-2 w-2 h-2 bg-green-500 rounded-full animate-ping" />}
         </button>
     );
-}
\ No newline at end of file
+}
+
+const SubjectAbility: React.FC<{ label: string; status: string; isThreat: boolean }> = ({ label, status, isThreat }) => (
+    <div className="flex justify-between border-b border-cave-800 pb-1">
+        <span className="text-cave-light">{label}</span>
+        <span className={isThreat ? 'text-sky-300 font-bold' : 'text-white'}>{status}</span>
+    </div>
+);
\ No newline at end of file
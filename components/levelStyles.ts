@@ -0,0 +1,69 @@
+import { HazardKind, PlatformKind } from '../types';
+
+// Per-kind Tailwind classes, shared by the runner's world view and the trapper's minimap
+export const PLATFORM_STYLES: Record<PlatformKind, { world: string; minimap: string }> = {
+  STATIC: {
+    world: 'bg-cave-700 border-t-4 border-cave-light',
+    minimap: 'bg-cave-700/60',
+  },
+  MOVING: {
+    world: 'bg-sky-900 border-t-4 border-sky-400',
+    minimap: 'bg-sky-500/70',
+  },
+  CRUMBLING: {
+    world: 'bg-amber-950 border-t-4 border-dashed border-amber-600',
+    minimap: 'bg-amber-700/70',
+  },
+  BOUNCY: {
+    world: 'bg-green-800 border-t-4 border-green-400 rounded-t-lg',
+    minimap: 'bg-green-500/70',
+  },
+  ICE: {
+    world: 'bg-cyan-100/30 border-t-4 border-cyan-100',
+    minimap: 'bg-cyan-200/70',
+  },
+  ONE_WAY: {
+    world: 'bg-transparent border-t-4 border-dotted border-cave-light',
+    minimap: 'border-t border-dotted border-cave-light',
+  },
+};
+
+export const HAZARD_STYLES: Record<HazardKind, { world: string; minimap: string }> = {
+  SPIKES: {
+    world: 'flex items-end overflow-hidden',
+    minimap: 'bg-red-500',
+  },
+  LAVA: {
+    world: 'bg-gradient-to-b from-orange-400 via-orange-600 to-red-900 border-t-2 border-yellow-300 animate-pulse shadow-[0_0_30px_rgba(249,115,22,0.6)]',
+    minimap: 'bg-orange-500/80',
+  },
+  CRUSHER: {
+    world: 'bg-zinc-700 border-2 border-zinc-500 border-b-8 border-b-red-600 shadow-xl',
+    minimap: 'bg-red-800',
+  },
+};
+
+// One color per lane in a race (see GameStart), for the avatars, minimap dots
+// and standings. Lane 0 is the usual white runner.
+export const LANE_STYLES: { avatar: string; dot: string; text: string }[] = [
+  {
+    avatar: 'bg-white shadow-[0_0_15px_rgba(255,255,255,0.3)]',
+    dot: 'bg-white',
+    text: 'text-white',
+  },
+  {
+    avatar: 'bg-amber-400 shadow-[0_0_15px_rgba(251,191,36,0.4)]',
+    dot: 'bg-amber-400',
+    text: 'text-amber-400',
+  },
+  {
+    avatar: 'bg-lime-400 shadow-[0_0_15px_rgba(163,230,53,0.4)]',
+    dot: 'bg-lime-400',
+    text: 'text-lime-400',
+  },
+  {
+    avatar: 'bg-pink-400 shadow-[0_0_15px_rgba(244,114,182,0.4)]',
+    dot: 'bg-pink-400',
+    text: 'text-pink-400',
+  },
+];
@@ -1,37 +1,241 @@
 /**
  * CAVERN PVP - SIGNALING SERVER (TCP)
- * 
+ *
  * To run:
- * 1. npm install ws
- * 2. node server.js
- * 
+ * 1. npm install
+ * 2. npm run start:server
+ *
  * This server uses TCP (WebSockets) to facilitate the initial handshake (Signaling).
  * Once clients connect, they establish a DIRECT UDP (WebRTC) connection for the game.
+ *
+ * Rooms: the host sends CREATE_ROOM and gets a short code back, the joiner sends
+ * JOIN_ROOM with that code. A room seats a trapper, up to four runners racing
+ * each other and a few spectators (JOIN_ROOM with { role }; without one the
+ * joiner takes whichever player seat is free). Everyone gets a peer ID; relayed
+ * messages carry the sender's as `from`, and a message with `to` only goes to
+ * that peer, so offers, answers and ICE candidates reach the right link.
+ * Nothing leaves the room, so other players on the LAN can't interfere.
+ *
+ * Relay: when WebRTC can't connect, the clients fall back to sending their game
+ * traffic over this socket. It takes the same path as signaling: anything that
+ * isn't room bookkeeping goes to the rest of the room. Snapshots arrive as binary
+ * frames and are passed on untouched.
+ *
+ * Match server: a host can ask for an authoritative room (CREATE_ROOM with
+ * { authoritative: true }). This server then runs the match itself, using the
+ * game's own simulation built for Node (npm run build:server). The runner (room
+ * creator) only sends inputs, the trapper only trap requests, and both get
+ * snapshots back. Chat and lobby traffic is still relayed as usual. The server
+ * plays one run per match, so these rooms seat a single runner.
  */
 
-const WebSocket = require('ws');
+import WebSocket, { WebSocketServer } from 'ws';
 
 const PORT = 8080;
-const wss = new WebSocket.Server({ port: PORT });
+// Seats per role; an authoritative room has a single runner (see above)
+const SEAT_LIMITS = { RUNNER: 4, TRAPPER: 1, SPECTATOR: 8 };
+const ROLES = Object.keys(SEAT_LIMITS);
+// No 0/O or 1/I: codes get read out loud across the room
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 4;
+const MATCH_UPDATE_MS = 4; // Well under a simulation tick (1000 / 60 ms)
+const MATCH_HOST_BUILD = './dist-ssr/matchHost.js';
+
+const wss = new WebSocketServer({ port: PORT });
+
+// code -> Set of sockets (players and spectators)
+const rooms = new Map();
+// code -> { host, timer }, authoritative rooms only
+const matches = new Map();
 
 console.log(`[SIGNALING] Server running on port ${PORT}`);
 console.log(`[SIGNALING] Ready to bootstrap UDP connections.`);
 
+function send(ws, type, payload) {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify({ type, payload }));
+  }
+}
+
+// Loaded on first use, so relaying works without a build
+let matchHostModule = null;
+function loadMatchHost() {
+  if (!matchHostModule) {
+    matchHostModule = import(MATCH_HOST_BUILD).catch(err => {
+      console.warn(`[MATCH] Can't load ${MATCH_HOST_BUILD} (${err.message}), run npm run build:server`);
+      matchHostModule = null;
+      return null;
+    });
+  }
+  return matchHostModule;
+}
+
+function startMatch(code, { MatchHost }) {
+  const host = new MatchHost((seat, data) => {
+    const room = rooms.get(code);
+    if (!room) return;
+    room.forEach(peer => {
+      if (peer.seat === seat && peer.readyState === WebSocket.OPEN) {
+        peer.send(data, { binary: typeof data !== 'string' });
+      }
+    });
+  });
+  const timer = setInterval(() => host.update(performance.now()), MATCH_UPDATE_MS);
+  matches.set(code, { host, timer });
+  console.log(`[MATCH] ${code} hosted by the server`);
+}
+
+function stopMatch(code) {
+  const match = matches.get(code);
+  if (!match) return;
+  clearInterval(match.timer);
+  matches.delete(code);
+}
+
+function newPeerId() {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+function newRoomCode() {
+  let code;
+  do {
+    code = '';
+    for (let i = 0; i < CODE_LENGTH; i++) {
+      code += CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)];
+    }
+  } while (rooms.has(code));
+  return code;
+}
+
+function leaveRoom(ws) {
+  const code = ws.roomCode;
+  if (!code) return;
+  ws.roomCode = null;
+
+  const room = rooms.get(code);
+  if (!room) return;
+  room.delete(ws);
+  room.forEach(peer => send(peer, 'PEER_LEFT', { code, peerId: ws.peerId, role: ws.seat }));
+
+  if (room.size === 0) {
+    rooms.delete(code);
+    stopMatch(code);
+    console.log(`[ROOM] ${code} closed`);
+  }
+}
+
+// To everyone else in the room, or only to peer `to`
+function relay(ws, data, isBinary, to) {
+  const room = ws.roomCode && rooms.get(ws.roomCode);
+  if (!room) return;
+  room.forEach(peer => {
+    if (peer === ws || (to && peer.peerId !== to)) return;
+    if (peer.readyState === WebSocket.OPEN) {
+      peer.send(data, { binary: isBinary });
+    }
+  });
+}
+
+// `matchHost` is the loaded build for authoritative rooms, null otherwise
+function openRoom(ws, matchHost) {
+  const code = newRoomCode();
+  rooms.set(code, new Set([ws]));
+  ws.roomCode = code;
+  ws.seat = 'RUNNER';
+  if (matchHost) startMatch(code, matchHost);
+  send(ws, 'ROOM_CREATED', { code, authoritative: !!matchHost });
+  console.log(`[ROOM] ${code} created by ${ws.ip}`);
+}
+
+// `role` is the seat asked for, or null for whichever player seat is free
+function joinRoom(ws, code, role) {
+  const room = rooms.get(code);
+  if (!room) {
+    send(ws, 'ROOM_ERROR', { code, reason: 'NOT_FOUND' });
+    return;
+  }
+  const authoritative = matches.has(code);
+  const members = [...room];
+  const hasRoom = seat => {
+    const limit = seat === 'RUNNER' && authoritative ? 1 : SEAT_LIMITS[seat];
+    return members.filter(peer => peer.seat === seat).length < limit;
+  };
+  // Without a role: a runner that dropped out can come back too
+  const seat = role || (hasRoom('RUNNER') && !members.some(peer => peer.seat === 'RUNNER') ? 'RUNNER' : 'TRAPPER');
+  if (!hasRoom(seat)) {
+    console.log(`[ROOM] ${code} full, turned a client away`);
+    send(ws, 'ROOM_ERROR', { code, reason: 'FULL' });
+    return;
+  }
+
+  room.forEach(peer => send(peer, 'PEER_JOINED', { code, authoritative, peerId: ws.peerId, role: seat }));
+  ws.seat = seat;
+  room.add(ws);
+  ws.roomCode = code;
+  send(ws, 'ROOM_JOINED', { code, authoritative });
+  console.log(`[ROOM] ${ws.seat} joined ${code} (${room.size} in room)`);
+}
+
 wss.on('connection', function connection(ws, req) {
   const ip = req.socket.remoteAddress;
   console.log(`[CONN] New client connected from ${ip}`);
+  ws.roomCode = null;
+  ws.seat = null;
+  ws.ip = ip;
+  ws.peerId = newPeerId();
 
-  ws.on('message', function incoming(message) {
-    // Broadcast to all other clients to find peers
-    // In a production app, we would target specific IDs, but for 2-player LAN, broadcast is fine.
-    wss.clients.forEach(function each(client) {
-      if (client !== ws && client.readyState === WebSocket.OPEN) {
-        client.send(message);
+  ws.on('message', function incoming(message, isBinary) {
+    // The match host takes what it plays the match with, the rest is relayed
+    const match = ws.roomCode && matches.get(ws.roomCode);
+    if (match) {
+      const data = isBinary
+        ? message.buffer.slice(message.byteOffset, message.byteOffset + message.byteLength)
+        : message.toString();
+      if (match.host.receive(ws.seat, data, performance.now())) return;
+    }
+
+    if (isBinary) {
+      relay(ws, message, true);
+      return;
+    }
+
+    let msg;
+    try {
+      msg = JSON.parse(message.toString());
+    } catch (e) {
+      return;
+    }
+
+    switch (msg.type) {
+      case 'CREATE_ROOM': {
+        leaveRoom(ws);
+        if (!(msg.payload && msg.payload.authoritative)) {
+          openRoom(ws, null);
+          break;
+        }
+        loadMatchHost().then(matchHost => {
+          if (matchHost) openRoom(ws, matchHost);
+          else send(ws, 'ROOM_ERROR', { code: '', reason: 'UNAVAILABLE' });
+        });
+        break;
       }
-    });
+      case 'JOIN_ROOM': {
+        leaveRoom(ws);
+        const payload = msg.payload || {};
+        const role = ROLES.includes(payload.role) ? payload.role : null;
+        joinRoom(ws, String(payload.code || '').toUpperCase(), role);
+        break;
+      }
+      default: {
+        // Signaling or relayed game traffic: to the rest of the room, and only to them
+        msg.from = ws.peerId;
+        relay(ws, JSON.stringify(msg), false, msg.to);
+      }
+    }
   });
 
   ws.on('close', () => {
     console.log(`[DISC] Client disconnected`);
+    leaveRoom(ws);
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,77 @@
+import { GameState, Pickup, PickupKind, PlayerState, RunnerAbilities, RunnerInput, PLAYER_WIDTH, PLAYER_HEIGHT } from '../types';
+
+// ---------------------------------------------------------
+// RUNNER ABILITIES & PICKUPS
+// ---------------------------------------------------------
+
+export const DASH_SPEED = 14;
+export const DASH_DURATION_MS = 160;
+export const DASH_COOLDOWN_MS = 2500;
+export const SHIELD_COOLDOWN_MS = 12000;
+export const PICKUP_RADIUS = 24;
+
+export const INITIAL_ABILITIES: RunnerAbilities = {
+  dashTimer: 0,
+  dashCooldown: 0,
+  shieldCooldown: 0,
+  shieldActive: false,
+};
+
+export const PICKUP_LABELS: Record<PickupKind, { icon: string; label: string }> = {
+  RECHARGE: { icon: '⚡', label: 'Recharge' },
+  EXTRA_REVIVE: { icon: '♥', label: 'Extra revive' },
+};
+
+export const isDashing = (player: PlayerState): boolean => player.abilities.dashTimer > 0;
+
+// Count down timers, then start a dash or raise the shield if asked and ready
+export const updateAbilities = (player: PlayerState, input: RunnerInput, dt: number, canAct: boolean): RunnerAbilities => {
+  const a = player.abilities;
+  const next: RunnerAbilities = {
+    dashTimer: Math.max(0, a.dashTimer - dt),
+    dashCooldown: Math.max(0, a.dashCooldown - dt),
+    shieldCooldown: Math.max(0, a.shieldCooldown - dt),
+    shieldActive: a.shieldActive,
+  };
+  if (!canAct) return next;
+
+  if (input.dash && next.dashCooldown === 0) {
+    next.dashTimer = DASH_DURATION_MS;
+    next.dashCooldown = DASH_COOLDOWN_MS;
+  }
+  if (input.shield && next.shieldCooldown === 0 && !next.shieldActive) {
+    next.shieldActive = true;
+    next.shieldCooldown = SHIELD_COOLDOWN_MS;
+  }
+  return next;
+};
+
+const touchesPickup = (player: PlayerState, pickup: Pickup): boolean => {
+  const cx = player.x + PLAYER_WIDTH / 2;
+  const cy = player.y + PLAYER_HEIGHT / 2;
+  return Math.abs(pickup.x - cx) <= PLAYER_WIDTH / 2 + PICKUP_RADIUS &&
+    Math.abs(pickup.y - cy) <= PLAYER_HEIGHT / 2 + PICKUP_RADIUS;
+};
+
+const applyPickup = (state: GameState, pickup: Pickup): GameState => {
+  switch (pickup.kind) {
+    case 'RECHARGE':
+      return {
+        ...state,
+        player: {
+          ...state.player,
+          abilities: { ...state.player.abilities, dashCooldown: 0, shieldCooldown: 0 },
+        },
+      };
+    case 'EXTRA_REVIVE':
+      return { ...state, revives: state.revives + 1 };
+  }
+};
+
+export const collectPickups = (state: GameState): GameState => {
+  const collected = state.pickups.filter(p => touchesPickup(state.player, p));
+  if (collected.length === 0) return state;
+
+  const pickups = state.pickups.filter(p => !collected.includes(p));
+  return collected.reduce(applyPickup, { ...state, pickups });
+};
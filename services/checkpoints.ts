@@ -0,0 +1,30 @@
+import { Checkpoint, Platform, Point, Rect, PLAYER_WIDTH, PLAYER_HEIGHT } from '../types';
+import { overlaps } from './collision';
+
+// ---------------------------------------------------------
+// CHECKPOINTS
+// ---------------------------------------------------------
+
+// Where the runner starts, and respawns if no checkpoint has been reached yet
+export const SPAWN_POINT: Point = { x: 100, y: 300 };
+
+export const touchedCheckpoint = (box: Rect, checkpoints: Checkpoint[]): Checkpoint | undefined =>
+  checkpoints.find(cp => overlaps(box, cp));
+
+// Centered on the flag, feet on its bottom edge
+export const respawnPoint = (checkpoint: Checkpoint | undefined): Point =>
+  checkpoint
+    ? {
+        x: checkpoint.x + (checkpoint.width - PLAYER_WIDTH) / 2,
+        y: checkpoint.y + checkpoint.height - PLAYER_HEIGHT,
+      }
+    : SPAWN_POINT;
+
+// Platforms a checkpoint stands on are protected from CRACK so a respawn
+// always has solid ground under it
+export const supportsCheckpoint = (plat: Platform, checkpoints: Checkpoint[]): boolean =>
+  checkpoints.some(cp => {
+    const feetY = cp.y + cp.height;
+    return feetY >= plat.y && feetY <= plat.y + 10 &&
+      cp.x < plat.x + plat.width && cp.x + cp.width > plat.x;
+  });
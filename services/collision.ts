@@ -0,0 +1,83 @@
+import { Rect, PLAYER_WIDTH, PLAYER_HEIGHT } from '../types';
+
+// ---------------------------------------------------------
+// SWEPT AABB COLLISION
+// ---------------------------------------------------------
+// Movement is resolved one axis at a time. Each sweep looks at the whole
+// segment travelled this tick, so nothing can tunnel through a thin
+// platform no matter how fast the runner is moving.
+
+export const playerBox = (x: number, y: number): Rect => ({
+  x,
+  y,
+  width: PLAYER_WIDTH,
+  height: PLAYER_HEIGHT,
+});
+
+// Strict overlap: touching edges do not count, so standing next to a wall
+// or on top of a platform is not an intersection.
+export const overlaps = (a: Rect, b: Rect): boolean =>
+  a.x < b.x + b.width &&
+  a.x + a.width > b.x &&
+  a.y < b.y + b.height &&
+  a.y + a.height > b.y;
+
+const overlapsX = (a: Rect, b: Rect) => a.x < b.x + b.width && a.x + a.width > b.x;
+const overlapsY = (a: Rect, b: Rect) => a.y < b.y + b.height && a.y + a.height > b.y;
+
+export interface SweepResult<T extends Rect> {
+  position: number;
+  hit: T | null;
+}
+
+// Move `box` horizontally by `dx`, stopping at the first solid side face
+export const sweepX = <T extends Rect>(box: Rect, dx: number, solids: T[]): SweepResult<T> => {
+  let position = box.x + dx;
+  let hit: T | null = null;
+
+  for (const solid of solids) {
+    if (!overlapsY(box, solid)) continue;
+
+    if (dx > 0) {
+      const wallX = solid.x - box.width;
+      if (box.x <= wallX && position > wallX) {
+        position = wallX;
+        hit = solid;
+      }
+    } else if (dx < 0) {
+      const wallX = solid.x + solid.width;
+      if (box.x >= wallX && position < wallX) {
+        position = wallX;
+        hit = solid;
+      }
+    }
+  }
+
+  return { position, hit };
+};
+
+// Move `box` vertically by `dy`, stopping on the first floor (dy > 0) or ceiling (dy < 0)
+export const sweepY = <T extends Rect>(box: Rect, dy: number, solids: T[]): SweepResult<T> => {
+  let position = box.y + dy;
+  let hit: T | null = null;
+
+  for (const solid of solids) {
+    if (!overlapsX(box, solid)) continue;
+
+    if (dy > 0) {
+      const floorY = solid.y - box.height;
+      if (box.y <= floorY && position >= floorY) {
+        position = floorY;
+        hit = solid;
+      }
+    } else if (dy < 0) {
+      const ceilingY = solid.y + solid.height;
+      if (box.y >= ceilingY && position < ceilingY) {
+        position = ceilingY;
+        hit = solid;
+      }
+    }
+  }
+
+  return { position, hit };
+};
@@ -1,14 +1,90 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { Platform } from "../types";
+import { Checkpoint, Hazard, HazardKind, LevelData, Pickup, PickupKind, Platform, PlatformKind, CHECKPOINT_WIDTH, CHECKPOINT_HEIGHT } from "../types";
+import { LevelParams, generateProceduralLevel } from "./levelGen";
+
+const PLATFORM_KINDS: PlatformKind[] = ['STATIC', 'MOVING', 'CRUMBLING', 'BOUNCY', 'ICE', 'ONE_WAY'];
+const HAZARD_KINDS: HazardKind[] = ['SPIKES', 'LAVA', 'CRUSHER'];
+const PICKUP_KINDS: PickupKind[] = ['RECHARGE', 'EXTRA_REVIVE'];
+
+const POINT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    x: { type: Type.NUMBER },
+    y: { type: Type.NUMBER },
+  },
+  required: ["x", "y"],
+};
+
+// Gemini output is only loosely shaped by the schema: coerce kinds and drop
+// per-kind parameters that don't belong to the chosen kind.
+const normalizePlatform = (p: any, index: number): Platform => {
+  const kind: PlatformKind = PLATFORM_KINDS.includes(p.kind) ? p.kind : 'STATIC';
+  const platform: Platform = { id: `plat-${index}`, x: p.x, y: p.y, width: p.width, height: p.height, kind };
+
+  switch (kind) {
+    case 'MOVING':
+      if (Array.isArray(p.path) && p.path.length >= 2) {
+        platform.path = p.path.map((pt: any) => ({ x: Number(pt.x), y: Number(pt.y) }));
+      } else {
+        platform.path = [{ x: p.x, y: p.y }, { x: p.x + 150, y: p.y }];
+      }
+      if (typeof p.speed === 'number') platform.speed = p.speed;
+      break;
+    case 'CRUMBLING':
+      if (typeof p.crumbleDelay === 'number') platform.crumbleDelay = p.crumbleDelay;
+      break;
+    case 'BOUNCY':
+      if (typeof p.restitution === 'number') platform.restitution = p.restitution;
+      break;
+    case 'ICE':
+      if (typeof p.friction === 'number') platform.friction = p.friction;
+      break;
+  }
+  return platform;
+};
+
+const normalizeHazard = (h: any, index: number): Hazard | null => {
+  if (!HAZARD_KINDS.includes(h.kind)) return null;
+  const hazard: Hazard = { id: `haz-${index}`, kind: h.kind, x: h.x, y: h.y, width: h.width, height: h.height };
+  if (h.kind === 'CRUSHER') {
+    if (!Array.isArray(h.path) || h.path.length < 2) return null;
+    hazard.path = h.path.map((pt: any) => ({ x: Number(pt.x), y: Number(pt.y) }));
+    if (typeof h.speed === 'number') hazard.speed = h.speed;
+  }
+  return hazard;
+};
 
 // Initialize Gemini AI
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
-export const generateLevel = async (): Promise<Platform[]> => {
+// Without a key Gemini is never asked; levels come from the procedural generator
+export const hasGemini = (): boolean => !!process.env.API_KEY;
+
+// Gemini gives the point the flag stands on; expand it into the trigger rect
+const normalizeCheckpoint = (c: any, index: number): Checkpoint => ({
+  id: `cp-${index}`,
+  x: c.x - CHECKPOINT_WIDTH / 2,
+  y: c.y - CHECKPOINT_HEIGHT,
+  width: CHECKPOINT_WIDTH,
+  height: CHECKPOINT_HEIGHT,
+});
+
+const normalizePickup = (p: any, index: number): Pickup => ({
+  id: `pick-${index}`,
+  kind: PICKUP_KINDS.includes(p.kind) ? p.kind : 'RECHARGE',
+  x: p.x,
+  y: p.y,
+});
+
+// `params` is the level the procedural generator builds when Gemini isn't
+// used (`useGemini` off, no key) or fails. Only those levels can be replayed
+// from their code.
+export const generateLevel = async (params: LevelParams, useGemini = false): Promise<LevelData> => {
+  if (!useGemini || !hasGemini()) return generateProceduralLevel(params);
   try {
     const model = "gemini-2.5-flash";
     const prompt = `
-      Generate a 2D platformer level design as a JSON array.
+      Generate a 2D platformer level design as a JSON object with "platforms" and "hazards" arrays.
       The level should be horizontal, starting at x=0 and extending to x=4000.
       The platforms should create a challenging but playable path.
       Include a "floor" platform at the very beginning (x=0, y=500, width=400) to start safely.
@@ -19,9 +95,32 @@ export const generateLevel = async (): Promise<Platform[]> => {
       - width (number, typically 50-200)
       - height (number, typically 20-40)
       
+      Platforms may also have a "kind" (default "STATIC"):
+      - "MOVING": also give "path" (2-3 waypoints {x, y} for its top-left corner, within ~200px of each other) and "speed" (1-3)
+      - "CRUMBLING": falls away shortly after being stood on; optional "crumbleDelay" in ms (400-1000)
+      - "BOUNCY": launches the runner upwards; optional "restitution" (1.0-1.3)
+      - "ICE": slippery; optional "friction" (0.02-0.1)
+      - "ONE_WAY": can be jumped through from below and landed on from above
+      
       Ensure gaps are jumpable (max gap ~150px).
       Vary the height (y) to create verticality.
+      Mix in special kinds, but keep at least half the platforms STATIC.
       Return roughly 20-30 platforms.
+      
+      Hazards kill the runner on contact. Each has kind, x, y, width, height:
+      - "SPIKES": a strip lying on top of a platform (height ~16, y = platform.y - height), narrower than the platform so it can be jumped over
+      - "LAVA": a pool filling the bottom of a gap between platforms (y around 600-700)
+      - "CRUSHER": a block (~40x60) above a wide platform, with a vertical "path" of 2 waypoints between y=platform.y-250 and y=platform.y-height, and a "speed" (1-3)
+      Never place hazards on the start or end platform. Return roughly 4-8 hazards.
+      
+      Checkpoints are respawn points. Each is the {x, y} point on top of a STATIC platform
+      where the flag stands (y = platform.y), at least 60px away from any hazard.
+      Return 3-5 checkpoints spread evenly along the level.
+      
+      Pickups are collectibles floating ~40px above a platform, given as kind and center {x, y}:
+      - "RECHARGE": refills the runner's dash and shield
+      - "EXTRA_REVIVE": grants one more revive; rare (at most 1), on a hard-to-reach spot
+      Return 3-6 pickups.
     `;
 
     const response = await ai.models.generateContent({
@@ -30,17 +129,58 @@ export const generateLevel = async (): Promise<Platform[]> => {
       config: {
         responseMimeType: "application/json",
         responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              x: { type: Type.NUMBER },
-              y: { type: Type.NUMBER },
-              width: { type: Type.NUMBER },
-              height: { type: Type.NUMBER },
+          type: Type.OBJECT,
+          properties: {
+            platforms: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  x: { type: Type.NUMBER },
+                  y: { type: Type.NUMBER },
+                  width: { type: Type.NUMBER },
+                  height: { type: Type.NUMBER },
+                  kind: { type: Type.STRING, enum: PLATFORM_KINDS },
+                  path: { type: Type.ARRAY, items: POINT_SCHEMA },
+                  speed: { type: Type.NUMBER },
+                  crumbleDelay: { type: Type.NUMBER },
+                  restitution: { type: Type.NUMBER },
+                  friction: { type: Type.NUMBER },
+                },
+                required: ["x", "y", "width", "height"],
+              },
+            },
+            hazards: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  kind: { type: Type.STRING, enum: HAZARD_KINDS },
+                  x: { type: Type.NUMBER },
+                  y: { type: Type.NUMBER },
+                  width: { type: Type.NUMBER },
+                  height: { type: Type.NUMBER },
+                  path: { type: Type.ARRAY, items: POINT_SCHEMA },
+                  speed: { type: Type.NUMBER },
+                },
+                required: ["kind", "x", "y", "width", "height"],
+              },
+            },
+            checkpoints: { type: Type.ARRAY, items: POINT_SCHEMA },
+            pickups: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  kind: { type: Type.STRING, enum: PICKUP_KINDS },
+                  x: { type: Type.NUMBER },
+                  y: { type: Type.NUMBER },
+                },
+                required: ["kind", "x", "y"],
+              },
             },
-            required: ["x", "y", "width", "height"],
           },
+          required: ["platforms", "hazards", "checkpoints", "pickups"],
         },
       },
     });
@@ -48,28 +188,19 @@ export const generateLevel = async (): Promise<Platform[]> => {
     if (response.text) {
       const data = JSON.parse(response.text);
       // Add unique IDs
-      return data.map((p: any, index: number) => ({ ...p, id: `plat-${index}` }));
+      return {
+        platforms: (data.platforms ?? []).map(normalizePlatform),
+        hazards: (data.hazards ?? [])
+          .map(normalizeHazard)
+          .filter((h: Hazard | null): h is Hazard => h !== null),
+        checkpoints: (data.checkpoints ?? []).map(normalizeCheckpoint),
+        pickups: (data.pickups ?? []).map(normalizePickup),
+      };
     }
     
     throw new Error("No data returned");
   } catch (error) {
-    console.error("Gemini Level Gen Error, using fallback:", error);
-    // Fallback level
-    return [
-      { id: "start", x: 50, y: 400, width: 400, height: 40 },
-      { id: "1", x: 500, y: 350, width: 150, height: 30 },
-      { id: "2", x: 700, y: 450, width: 150, height: 30 },
-      { id: "3", x: 900, y: 300, width: 100, height: 30 },
-      { id: "4", x: 1100, y: 400, width: 200, height: 30 },
-      { id: "5", x: 1400, y: 350, width: 100, height: 30 },
-      { id: "6", x: 1600, y: 250, width: 150, height: 30 },
-      { id: "7", x: 1900, y: 400, width: 300, height: 30 },
-      { id: "8", x: 2300, y: 350, width: 100, height: 30 },
-      { id: "9", x: 2500, y: 250, width: 100, height: 30 },
-      { id: "10", x: 2700, y: 350, width: 150, height: 30 },
-      { id: "11", x: 3000, y: 400, width: 200, height: 30 },
-      { id: "12", x: 3300, y: 300, width: 150, height: 30 },
-      { id: "13", x: 3600, y: 400, width: 400, height: 30 }, // End platform
-    ];
+    console.error("Gemini Level Gen Error, using the procedural generator:", error);
+    return generateProceduralLevel(params);
   }
 };
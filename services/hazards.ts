@@ -0,0 +1,18 @@
+import { Hazard, Rect } from '../types';
+import { overlaps } from './collision';
+import { PLATFORM_DEFAULTS, positionOnPath } from './platforms';
+
+// ---------------------------------------------------------
+// HAZARDS
+// ---------------------------------------------------------
+
+// Crushers follow their path exactly like moving platforms do
+export const advanceHazards = (hazards: Hazard[], tick: number): Hazard[] =>
+  hazards.map(h => {
+    if (h.kind !== 'CRUSHER' || !h.path || h.path.length < 2) return h;
+    const pos = positionOnPath(h.path, h.speed ?? PLATFORM_DEFAULTS.speed, tick);
+    return { ...h, x: pos.x, y: pos.y };
+  });
+
+export const touchesHazard = (box: Rect, hazards: Hazard[]): boolean =>
+  hazards.some(h => overlaps(box, h));
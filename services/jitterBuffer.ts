@@ -0,0 +1,142 @@
+import { GameState, SIM_TICK_MS, SNAPSHOT_RATE } from '../types';
+import { advanceHazards } from './hazards';
+import { placePlatforms } from './platforms';
+
+// ---------------------------------------------------------
+// JITTER BUFFER
+// ---------------------------------------------------------
+// Snapshots reach the trapper late, bunched up or not at all. Instead of
+// showing each one as it lands, we play them back a little behind real time:
+// far enough back that the next snapshot has usually arrived, so the runner
+// can be drawn in between the two. The delay grows and shrinks with the
+// measured jitter. When the buffer runs dry we extrapolate for a moment.
+
+const MIN_DELAY_MS = 1000 / SNAPSHOT_RATE; // One send interval
+const MAX_DELAY_MS = 300;
+const JITTER_MARGIN = 3; // Delay = send interval + this many jitters
+const DELAY_SMOOTHING = 0.05; // Per rendered frame, so delay changes don't jerk the view
+const OFFSET_DRIFT = 0.01; // How fast the clock offset follows transit times that went up
+const MAX_EXTRAPOLATION_MS = 200;
+// Further than this between two snapshots is a respawn, not movement
+const TELEPORT_DISTANCE = 200;
+
+interface BufferedSnapshot {
+  time: number; // Simulation time, ms
+  state: GameState;
+}
+
+export interface JitterStats {
+  delay: number; // ms the view runs behind the runner
+  jitter: number; // ms, smoothed transit time variation
+  buffered: number;
+  discarded: number; // Stale snapshots thrown away
+  extrapolating: boolean;
+}
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// Movers are a function of the tick, so they can be placed at any fractional tick
+const atTime = (state: GameState, time: number, x: number, y: number): GameState => {
+  const tick = time / SIM_TICK_MS;
+  return {
+    ...state,
+    level: placePlatforms(state.level, tick),
+    hazards: advanceHazards(state.hazards, tick),
+    player: { ...state.player, x, y },
+  };
+};
+
+export class JitterBuffer {
+  private snapshots: BufferedSnapshot[] = [];
+  // Local clock minus simulation clock for the least-delayed snapshot seen
+  private offset: number | null = null;
+  private lastTransit: number | null = null;
+  private jitter = 0;
+  private delay = MIN_DELAY_MS * 2;
+  private playedTime = -Infinity;
+  private discarded = 0;
+  private extrapolating = false;
+
+  push(state: GameState, now: number) {
+    const time = state.tick * SIM_TICK_MS;
+    const newest = this.snapshots[this.snapshots.length - 1];
+    if (time <= this.playedTime || (newest && time <= newest.time)) {
+      this.discarded++;
+      return;
+    }
+
+    // RFC 3550 style jitter: how much transit time varies packet to packet
+    const transit = now - time;
+    if (this.lastTransit !== null) {
+      this.jitter += (Math.abs(transit - this.lastTransit) - this.jitter) / 16;
+    }
+    this.lastTransit = transit;
+    // Jump down to faster packets at once, creep up if the link got slower
+    this.offset = this.offset === null || transit < this.offset
+      ? transit
+      : this.offset + (transit - this.offset) * OFFSET_DRIFT;
+
+    this.snapshots.push({ time, state });
+  }
+
+  // The state to draw at local time `now`, or null before the first snapshot
+  sample(now: number): GameState | null {
+    if (this.snapshots.length === 0 || this.offset === null) return null;
+
+    const target = Math.min(MAX_DELAY_MS, Math.max(MIN_DELAY_MS, MIN_DELAY_MS + JITTER_MARGIN * this.jitter));
+    this.delay += (target - this.delay) * DELAY_SMOOTHING;
+    // Never play backwards, even when the delay just grew
+    const renderTime = Math.max(this.playedTime, now - this.offset - this.delay);
+
+    const first = this.snapshots[0];
+    if (renderTime <= first.time) {
+      this.extrapolating = false;
+      return first.state;
+    }
+    this.playedTime = renderTime;
+
+    const nextIndex = this.snapshots.findIndex(s => s.time > renderTime);
+    if (nextIndex === -1) {
+      this.snapshots = [this.snapshots[this.snapshots.length - 1]];
+      return this.extrapolate(this.snapshots[0], renderTime);
+    }
+
+    // Keep the snapshot just before the render time as the next interpolation start
+    this.snapshots = this.snapshots.slice(nextIndex - 1);
+    this.extrapolating = false;
+    return this.interpolate(this.snapshots[0], this.snapshots[1], renderTime);
+  }
+
+  getStats(): JitterStats {
+    return {
+      delay: this.delay,
+      jitter: this.jitter,
+      buffered: this.snapshots.length,
+      discarded: this.discarded,
+      extrapolating: this.extrapolating,
+    };
+  }
+
+  private interpolate(from: BufferedSnapshot, to: BufferedSnapshot, time: number): GameState {
+    const a = from.state.player;
+    const b = to.state.player;
+    if (Math.hypot(b.x - a.x, b.y - a.y) > TELEPORT_DISTANCE) {
+      return atTime(from.state, time, a.x, a.y);
+    }
+    const t = (time - from.time) / (to.time - from.time);
+    return atTime(from.state, time, lerp(a.x, b.x, t), lerp(a.y, b.y, t));
+  }
+
+  // Carry the runner along their last known velocity, then hold still
+  private extrapolate(last: BufferedSnapshot, time: number): GameState {
+    const { state } = last;
+    if (state.gameStatus !== 'PLAYING') {
+      this.extrapolating = false;
+      return state;
+    }
+    this.extrapolating = true;
+    const ticks = Math.min(time - last.time, MAX_EXTRAPOLATION_MS) / SIM_TICK_MS;
+    const vy = state.player.isGrounded ? 0 : state.player.vy;
+    return atTime(state, last.time + ticks * SIM_TICK_MS, state.player.x + state.player.vx * ticks, state.player.y + vy * ticks);
+  }
+}
@@ -0,0 +1,248 @@
+import {
+  Checkpoint, Hazard, LevelData, Pickup, Platform, PlatformKind,
+  CHECKPOINT_HEIGHT, CHECKPOINT_WIDTH, GRAVITY, JUMP_FORCE, LEVEL_LENGTH, MAX_FALL_SPEED, MOVE_SPEED,
+} from '../types';
+import { nextRandom, randomSeed } from './rng';
+
+// ---------------------------------------------------------
+// PROCEDURAL LEVELS
+// ---------------------------------------------------------
+// Builds a level from a seed, a difficulty and a length, without asking
+// anyone: the same parameters always give the same level, so a good one can
+// be shared as its level code and played again.
+//
+// The path is one chain of platforms, left to right. Every gap in it is sized
+// against the runner's actual jump (the simulation's GRAVITY, JUMP_FORCE and
+// MOVE_SPEED), and only a share of the longest possible jump is used so there
+// is room for human error. Moving platforms count at their worst position.
+
+export type Difficulty = 'EASY' | 'NORMAL' | 'HARD';
+
+export interface LevelParams {
+  seed: number;
+  difficulty: Difficulty;
+  length: number; // px to the finish line
+}
+
+interface DifficultyTuning {
+  reach: number; // Share of the longest possible jump a gap may take
+  climb: number; // Share of the highest possible jump a step up may take
+  minWidth: number;
+  maxWidth: number;
+  specials: number; // Chance a platform is anything but STATIC
+  hazards: number; // Chance a platform (or the gap before it) gets a hazard
+  pickups: number; // Chance a platform gets a RECHARGE
+  crusherSpeed: number;
+}
+
+const TUNING: Record<Difficulty, DifficultyTuning> = {
+  EASY: { reach: 0.55, climb: 0.4, minWidth: 140, maxWidth: 260, specials: 0.2, hazards: 0.15, pickups: 0.3, crusherSpeed: 1 },
+  NORMAL: { reach: 0.7, climb: 0.6, minWidth: 100, maxWidth: 200, specials: 0.4, hazards: 0.3, pickups: 0.2, crusherSpeed: 2 },
+  HARD: { reach: 0.85, climb: 0.8, minWidth: 70, maxWidth: 160, specials: 0.6, hazards: 0.45, pickups: 0.12, crusherSpeed: 3 },
+};
+
+export const DIFFICULTIES = Object.keys(TUNING) as Difficulty[];
+// Offered in the lobby; level codes can carry any length from MIN_LENGTH to
+// MAX_LENGTH. Longer levels wouldn't fit in a single START_GAME on a data
+// channel (browsers cap messages at about 256 KB).
+export const LEVEL_LENGTHS = [2000, LEVEL_LENGTH, 8000];
+const MIN_LENGTH = 1000;
+const MAX_LENGTH = 20000;
+
+// Platform tops stay in this band: the runner spawns at y=300 and dies below 800
+const MIN_Y = 200;
+const MAX_Y = 560;
+const MAX_DROP = 160;
+const MIN_GAP = 40;
+const PLATFORM_HEIGHT = 30;
+const MAX_MOVING_RANGE = 120;
+const SPECIAL_KINDS: PlatformKind[] = ['MOVING', 'CRUMBLING', 'BOUNCY', 'ICE', 'ONE_WAY'];
+// Room to land and take off again on either side of a spike strip
+const SPIKE_RUNUP = 50;
+const CHECKPOINT_SPACING = 1000;
+
+// ----- Jump physics -----
+
+// Replays a running jump tick by tick, exactly as the simulation integrates
+// it: how far the runner has moved sideways by the time their feet come back
+// down to `rise` px above the takeoff (negative: below it). Null if the jump
+// never gets that high.
+export const jumpReach = (rise: number): number | null => {
+  let height = 0;
+  let peak = 0;
+  let vy = JUMP_FORCE;
+  for (let tick = 1; ; tick++) {
+    vy = Math.min(vy + GRAVITY, MAX_FALL_SPEED);
+    height -= vy;
+    peak = Math.max(peak, height);
+    if (vy > 0 && height <= rise) return peak >= rise ? tick * MOVE_SPEED : null;
+  }
+};
+
+// The highest a jump gets, in px
+export const JUMP_HEIGHT = (() => {
+  let height = 0;
+  for (let vy = JUMP_FORCE + GRAVITY; vy < 0; vy += GRAVITY) height -= vy;
+  return height;
+})();
+
+// ----- Level codes -----
+// The seed in base 36, then the difficulty's initial and the length in
+// hundreds of px: "K3J9XQ-N40".
+
+export const levelCode = (params: LevelParams): string =>
+  `${params.seed.toString(36).toUpperCase()}-${params.difficulty[0]}${Math.round(params.length / 100)}`;
+
+// Null if `code` isn't one
+export const parseLevelCode = (code: string): LevelParams | null => {
+  const match = /^([0-9A-Z]{1,7})-([A-Z])(\d{1,4})$/.exec(code.trim().toUpperCase());
+  if (!match) return null;
+  const seed = parseInt(match[1], 36);
+  const difficulty = DIFFICULTIES.find(d => d[0] === match[2]);
+  const length = Number(match[3]) * 100;
+  if (!difficulty || seed > 0xffffffff || length < MIN_LENGTH || length > MAX_LENGTH) return null;
+  return { seed, difficulty, length };
+};
+
+export const randomLevelParams = (difficulty: Difficulty = 'NORMAL', length = LEVEL_LENGTH): LevelParams => ({
+  seed: randomSeed(),
+  difficulty,
+  length,
+});
+
+// ----- Generator -----
+
+export const generateProceduralLevel = (params: LevelParams): LevelData => {
+  const tuning = TUNING[params.difficulty];
+  let seed = params.seed;
+  const random = (): number => {
+    const [value, next] = nextRandom(seed);
+    seed = next;
+    return value;
+  };
+  const between = (min: number, max: number) => min + random() * (max - min);
+  const chance = (p: number) => random() < p;
+
+  const length = Math.min(MAX_LENGTH, Math.max(MIN_LENGTH, params.length));
+  const flatReach = jumpReach(0)! * tuning.reach;
+  const start: Platform = { id: 'plat-0', x: 50, y: 400, width: 400, height: 40 };
+  const platforms: Platform[] = [start];
+  const hazards: Hazard[] = [];
+  // Platforms with a hazard on them or in front of them; no checkpoints there
+  const guarded = new Set<string>();
+
+  // The worst case for the next jump: the rightmost point the runner can take
+  // off from for sure (a moving platform's right edge at its leftmost), and
+  // how far that platform swings right into the gap
+  let takeoff = start.x + start.width;
+  let y = start.y;
+  let swing = 0;
+
+  while (true) {
+    // Off a moving platform, stay level or go down so the longer gap it needs fits
+    const maxRise = swing > 0 ? 0 : JUMP_HEIGHT * tuning.climb;
+    const nextY = Math.round(Math.min(MAX_Y, Math.max(MIN_Y, y - between(-MAX_DROP, maxRise))));
+    const rise = y - nextY;
+    const reach = jumpReach(rise)! * tuning.reach;
+    const minGap = MIN_GAP + swing;
+    const gap = Math.round(between(minGap, Math.max(minGap, reach)));
+    const id = `plat-${platforms.length}`;
+
+    // The last platform runs past the finish line
+    if (takeoff + gap + tuning.maxWidth >= length) {
+      const x = takeoff + gap;
+      platforms.push({ id, x, y: nextY, width: Math.max(length - x + 200, 200), height: PLATFORM_HEIGHT });
+      break;
+    }
+
+    const width = Math.round(between(tuning.minWidth, tuning.maxWidth));
+    const kind: PlatformKind = chance(tuning.specials) ? SPECIAL_KINDS[Math.floor(random() * SPECIAL_KINDS.length)] : 'STATIC';
+    // A moving platform's far end is where the gap was measured to; it swings
+    // back towards the previous platform (and its swing), never into it
+    const range = Math.min(MAX_MOVING_RANGE, gap - MIN_GAP - swing, flatReach - MIN_GAP);
+    let platform: Platform;
+    if (kind === 'MOVING' && range >= 40) {
+      const x = takeoff + gap - range;
+      platform = { id, x, y: nextY, width, height: PLATFORM_HEIGHT, kind, path: [{ x, y: nextY }, { x: x + range, y: nextY }], speed: Math.round(between(1, 3)) };
+      swing = range;
+    } else {
+      platform = { id, x: takeoff + gap, y: nextY, width, height: PLATFORM_HEIGHT, kind: kind === 'MOVING' ? 'STATIC' : kind };
+      swing = 0;
+    }
+    platforms.push(platform);
+
+    if (chance(tuning.hazards)) {
+      const hazard = placeHazard(platform, takeoff, hazards.length, tuning, random);
+      if (hazard) {
+        hazards.push(hazard);
+        guarded.add(platform.id);
+      }
+    }
+
+    takeoff = platform.x + platform.width;
+    y = nextY;
+  }
+
+  const finish = platforms[platforms.length - 1];
+  const checkpoints: Checkpoint[] = [];
+  for (let target = CHECKPOINT_SPACING; target < length - CHECKPOINT_SPACING / 2; target += CHECKPOINT_SPACING) {
+    const platform = platforms.find(p =>
+      p.x + p.width / 2 >= target && p !== finish && (p.kind ?? 'STATIC') === 'STATIC' && !guarded.has(p.id)
+    );
+    if (!platform || checkpoints.some(cp => cp.x > platform.x && cp.x < platform.x + platform.width)) continue;
+    checkpoints.push({
+      id: `cp-${checkpoints.length}`,
+      x: platform.x + platform.width / 2 - CHECKPOINT_WIDTH / 2,
+      y: platform.y - CHECKPOINT_HEIGHT,
+      width: CHECKPOINT_WIDTH,
+      height: CHECKPOINT_HEIGHT,
+    });
+  }
+
+  // Recharges float over plain platforms; the one extra revive goes to the
+  // highest of them, usually the hardest to get to
+  const pickups: Pickup[] = [];
+  const middle = platforms.slice(1, -1).filter(p => !guarded.has(p.id) && p.kind !== 'MOVING');
+  const highest = middle.reduce<Platform | null>((best, p) => (!best || p.y < best.y ? p : best), null);
+  for (const platform of middle) {
+    const isRevive = platform === highest;
+    if (!isRevive && !chance(tuning.pickups)) continue;
+    pickups.push({
+      id: `pick-${pickups.length}`,
+      kind: isRevive ? 'EXTRA_REVIVE' : 'RECHARGE',
+      x: platform.x + platform.width / 2,
+      y: platform.y - 40,
+    });
+  }
+
+  return { platforms, hazards, checkpoints, pickups, length, code: levelCode({ ...params, length }) };
+};
+
+// Spikes on a wide static platform (short enough to jump from a standstill),
+// a crusher over one, or lava in the gap in front of any
+const placeHazard = (
+  platform: Platform,
+  gapStart: number,
+  index: number,
+  tuning: DifficultyTuning,
+  random: () => number
+): Hazard | null => {
+  const id = `haz-${index}`;
+  const isStatic = (platform.kind ?? 'STATIC') === 'STATIC';
+  const roll = random();
+  if (isStatic && roll < 0.4) {
+    const width = Math.min(60, platform.width - 2 * SPIKE_RUNUP);
+    if (width < 30) return null;
+    const x = Math.round(platform.x + SPIKE_RUNUP + random() * (platform.width - 2 * SPIKE_RUNUP - width));
+    return { id, kind: 'SPIKES', x, y: platform.y - 16, width, height: 16 };
+  }
+  if (isStatic && roll < 0.7) {
+    if (platform.width < 160) return null;
+    const x = Math.round(platform.x + platform.width / 2 - 20);
+    const top = platform.y - 150;
+    return { id, kind: 'CRUSHER', x, y: top, width: 40, height: 60, path: [{ x, y: top }, { x, y: platform.y - 60 }], speed: tuning.crusherSpeed };
+  }
+  const width = platform.x - gapStart;
+  if (width < MIN_GAP) return null;
+  return { id, kind: 'LAVA', x: gapStart, y: 640, width, height: 160 };
+};
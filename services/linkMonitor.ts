@@ -0,0 +1,114 @@
+import { LinkProbe } from '../types';
+import { NetworkAdapter } from './p2p';
+
+// ---------------------------------------------------------
+// LINK MONITOR
+// ---------------------------------------------------------
+// Measures the connection to the opponent: timestamped pings give RTT and
+// jitter, their sequence numbers give loss, and silence for too long means
+// the opponent is gone. Both peers run one and answer each other's pings.
+
+export const PING_INTERVAL_MS = 500;
+export const DISCONNECT_TIMEOUT_MS = 5000;
+const PONG_TIMEOUT_MS = 2000; // An unanswered ping counts as lost after this
+const LOSS_WINDOW = 20; // Pings the loss figure is taken over
+
+export interface LinkStats {
+  rtt: number | null; // ms, smoothed; null until the first pong
+  jitter: number; // ms, smoothed RTT variation
+  loss: number; // 0..1 over the last LOSS_WINDOW pings
+  sinceLastHeard: number; // ms since anything arrived from the opponent
+  connected: boolean;
+  upRate: number; // Bytes per second
+  downRate: number;
+  malformed: number; // Messages dropped for failing validation, since connecting
+}
+
+export class LinkMonitor {
+  private seq = 0;
+  private pending = new Map<number, number>(); // seq -> sentAt
+  private outcomes: boolean[] = []; // Recent pings, answered or not
+  private rtt: number | null = null;
+  private jitter = 0;
+  private lastHeardAt: number;
+  private lastSampleAt: number;
+  private lastBytesSent: number;
+  private lastBytesReceived: number;
+  private upRate = 0;
+  private downRate = 0;
+
+  constructor(private network: NetworkAdapter, now: number) {
+    this.lastHeardAt = now;
+    this.lastSampleAt = now;
+    this.lastBytesSent = network.stats.bytesSent;
+    this.lastBytesReceived = network.stats.bytesReceived;
+  }
+
+  // Call every PING_INTERVAL_MS
+  tick(now: number) {
+    for (const [seq, sentAt] of this.pending) {
+      if (now - sentAt < PONG_TIMEOUT_MS) continue;
+      this.pending.delete(seq);
+      this.record(false);
+    }
+
+    const probe: LinkProbe = { seq: ++this.seq, sentAt: now };
+    this.pending.set(probe.seq, now);
+    this.network.send({ type: 'PING', payload: probe });
+
+    const elapsed = (now - this.lastSampleAt) / 1000;
+    if (elapsed > 0) {
+      this.upRate = (this.network.stats.bytesSent - this.lastBytesSent) / elapsed;
+      this.downRate = (this.network.stats.bytesReceived - this.lastBytesReceived) / elapsed;
+    }
+    this.lastSampleAt = now;
+    this.lastBytesSent = this.network.stats.bytesSent;
+    this.lastBytesReceived = this.network.stats.bytesReceived;
+  }
+
+  // Any message at all proves the opponent is still there
+  noteReceived(now: number) {
+    this.lastHeardAt = now;
+  }
+
+  handlePing(probe: LinkProbe) {
+    this.network.send({ type: 'PONG', payload: probe });
+  }
+
+  handlePong(probe: LinkProbe, now: number) {
+    const sentAt = this.pending.get(probe.seq);
+    if (sentAt === undefined) return; // Too late (already counted lost) or duplicated
+    this.pending.delete(probe.seq);
+    this.record(true);
+
+    const sample = now - sentAt;
+    if (this.rtt === null) {
+      this.rtt = sample;
+    } else {
+      this.jitter += (Math.abs(sample - this.rtt) - this.jitter) / 16;
+      this.rtt += (sample - this.rtt) / 8;
+    }
+  }
+
+  isTimedOut(now: number): boolean {
+    return now - this.lastHeardAt > DISCONNECT_TIMEOUT_MS;
+  }
+
+  getStats(now: number): LinkStats {
+    const lost = this.outcomes.filter(answered => !answered).length;
+    return {
+      rtt: this.rtt,
+      jitter: this.jitter,
+      loss: this.outcomes.length > 0 ? lost / this.outcomes.length : 0,
+      sinceLastHeard: now - this.lastHeardAt,
+      connected: !this.isTimedOut(now),
+      upRate: this.upRate,
+      downRate: this.downRate,
+      malformed: this.network.stats.malformed,
+    };
+  }
+
+  private record(answered: boolean) {
+    this.outcomes = [...this.outcomes, answered].slice(-LOSS_WINDOW);
+  }
+}
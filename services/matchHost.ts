@@ -0,0 +1,221 @@
+import {
+  ConnectionMode, DeliveryClass, GameStart, GameState, InputFrame, MessageType, NetworkMessage,
+  ResumeRequest, Role, RunnerInput, TrapAction, SIM_TICK_MS,
+} from '../types';
+import { generateProceduralLevel, parseLevelCode, randomLevelParams } from './levelGen';
+import { MessageListener, NetworkAdapter, emptyTrafficStats } from './p2p';
+import { WireData, fromWire, toWire, wireSize } from './protocol';
+import { randomSeed } from './rng';
+import { NO_INPUT, createGameState, step } from './simulation';
+import { SnapshotSender } from './stateSync';
+
+// ---------------------------------------------------------
+// MATCH HOST (SERVER AUTHORITATIVE MODE)
+// ---------------------------------------------------------
+// Runs a match headlessly for the room server (server.js loads the build of
+// this file, see `npm run build:server`). The runner sends numbered inputs,
+// the trapper sends trap requests, and both get snapshots of the one true
+// state. Neither client can cheat the other: the server decides.
+//
+// The simulation advances one tick per runner input, so the runner's
+// prediction (services/prediction.ts) replays exactly what the server did.
+// Wall-clock time still bounds it both ways: inputs arriving faster than the
+// tick rate wait their turn, and a runner that goes quiet doesn't stop the
+// clock, their last input is held down for them. Each tick held down stands
+// in for the next input, which is dropped if it turns up after all: the
+// runner's prediction gets corrected once instead of lagging for good.
+//
+// Only the runner starts a run, and never over one that's going. The level
+// comes from its code (services/levelGen.ts): the server builds it itself
+// rather than play whatever the client sent.
+//
+// Spectators share one seat: they all get the same stream and never ack it,
+// so it's keyframes only, which TCP carries without trouble.
+
+export type Seat = Exclude<Role, null>;
+
+// Messages the host answers itself; the server relays everything else to the other player
+export const MATCH_MESSAGES: ReadonlySet<MessageType> = new Set<MessageType>([
+  'START_GAME', 'RUNNER_INPUT', 'TRAP_TRIGGER', 'SNAPSHOT_ACK', 'RESUME_REQUEST', 'WATCH_REQUEST',
+]);
+
+const SEATS: Seat[] = ['RUNNER', 'TRAPPER', 'SPECTATOR'];
+
+// How far the runner may get ahead of the wall clock (bursty delivery)
+const MAX_TICKS_AHEAD = 6;
+// How long the runner may go quiet before the clock moves on without them
+const STALL_TICKS = 15;
+// Inputs held beyond this are too late to matter; the oldest go first
+const MAX_INPUT_QUEUE = 60;
+
+// One player's end of the room socket, as the snapshot sender sees it
+class SeatLink implements NetworkAdapter {
+  type: ConnectionMode = 'MATCH_SERVER';
+  stats = emptyTrafficStats();
+
+  constructor(private sendData: (data: WireData) => void) {}
+
+  async connect() {}
+
+  async reconnect() {}
+
+  // The room server talks TCP (WebSocket): everything arrives
+  deliveryOf(_type: MessageType): DeliveryClass {
+    return 'RELIABLE';
+  }
+
+  send(msg: NetworkMessage) {
+    const data = toWire(msg);
+    this.sendData(data);
+    this.stats.bytesSent += wireSize(data);
+    this.stats.messagesSent++;
+  }
+
+  // Incoming traffic goes through MatchHost.receive instead
+  onMessage(_callback: MessageListener) {
+    return () => {};
+  }
+
+  disconnect() {}
+}
+
+export class MatchHost {
+  private links: Record<Seat, SeatLink>;
+  private senders: Record<Seat, SnapshotSender | null> = { RUNNER: null, TRAPPER: null, SPECTATOR: null };
+  private state: GameState | null = null;
+  private sessionId: string | null = null;
+  private startedAt = 0;
+  private inputs: InputFrame[] = [];
+  private lastInput: RunnerInput = NO_INPUT;
+  private receivedSeq = 0; // Newest input queued
+  private appliedSeq = 0; // Newest input simulated, or stood in for
+  private pendingTraps: TrapAction[] = [];
+
+  constructor(send: (seat: Seat, data: WireData) => void) {
+    this.links = {
+      RUNNER: new SeatLink(data => send('RUNNER', data)),
+      TRAPPER: new SeatLink(data => send('TRAPPER', data)),
+      SPECTATOR: new SeatLink(data => send('SPECTATOR', data)),
+    };
+  }
+
+  // False if the message isn't the match's business and should be relayed
+  receive(seat: Seat, data: WireData, now: number): boolean {
+    const msg = fromWire(data);
+    if (!msg || !MATCH_MESSAGES.has(msg.type)) return false;
+
+    switch (msg.type) {
+      case 'START_GAME':
+        if (seat === 'RUNNER' && !this.isPlaying()) this.start(msg.payload, now);
+        break;
+      case 'RUNNER_INPUT':
+        if (seat === 'RUNNER') this.queueInputs(msg.payload.frames);
+        break;
+      case 'TRAP_TRIGGER':
+        if (seat === 'TRAPPER' && this.isPlaying()) {
+          this.pendingTraps.push(msg.payload);
+          // Spectators follow the trapper's moves too
+          this.links.SPECTATOR.send(msg);
+        }
+        break;
+      case 'SNAPSHOT_ACK':
+        if (seat !== 'SPECTATOR') this.senders[seat]?.handleAck(msg.payload);
+        break;
+      case 'RESUME_REQUEST':
+        this.resume(seat, msg.payload);
+        break;
+      case 'WATCH_REQUEST':
+        if (seat === 'SPECTATOR' && this.sessionId) this.resume(seat, { sessionId: this.sessionId });
+        break;
+    }
+    return true;
+  }
+
+  // Call every few ms; runs the ticks that are due and sends snapshots
+  update(now: number) {
+    if (!this.state || !this.isPlaying()) return;
+
+    const due = Math.floor((now - this.startedAt) / SIM_TICK_MS);
+    while (this.inputs.length > 0 && this.state.tick < due + MAX_TICKS_AHEAD && this.isPlaying()) {
+      const frame = this.inputs.shift()!;
+      this.lastInput = frame.input;
+      this.appliedSeq = frame.seq;
+      this.tick();
+    }
+    while (this.state.tick < due - STALL_TICKS && this.isPlaying()) {
+      this.appliedSeq++;
+      this.tick();
+    }
+
+    const over = !this.isPlaying();
+    for (const sender of Object.values(this.senders)) {
+      // Make sure both players see how the run ended
+      if (over) sender?.flush(this.state, now, this.appliedSeq);
+      else sender?.update(this.state, now, this.appliedSeq);
+    }
+  }
+
+  isPlaying(): boolean {
+    return this.state?.gameStatus === 'PLAYING';
+  }
+
+  private start(request: GameStart, now: number) {
+    const seed = randomSeed();
+    // No code (a Gemini level, or none at all): a level of our own choosing
+    const params = (request.level.code && parseLevelCode(request.level.code)) || randomLevelParams();
+    const level = generateProceduralLevel(params);
+    const start: GameStart = { sessionId: request.sessionId, level, seed };
+    const state = createGameState(level, seed);
+    this.state = state;
+    this.sessionId = request.sessionId;
+    this.startedAt = now;
+    this.inputs = [];
+    this.lastInput = NO_INPUT;
+    this.receivedSeq = 0;
+    this.appliedSeq = 0;
+    this.pendingTraps = [];
+
+    for (const seat of SEATS) {
+      this.links[seat].send({ type: 'START_GAME', payload: start });
+      this.senders[seat] = new SnapshotSender(this.links[seat], state);
+    }
+    console.log(`[MATCH] Session ${request.sessionId} started on level ${level.code}`);
+  }
+
+  private tick() {
+    const traps = this.pendingTraps;
+    this.pendingTraps = [];
+    this.state = step(this.state!, this.lastInput, traps);
+
+    for (const event of this.state.events) {
+      if (event.kind === 'TRAP_REJECTED') {
+        const { trapId, trapType, reason } = event;
+        const rejection: NetworkMessage = { type: 'TRAP_REJECTED', payload: { trapId, trapType, reason } };
+        this.links.TRAPPER.send(rejection);
+        this.links.SPECTATOR.send(rejection);
+      }
+    }
+  }
+
+  private queueInputs(frames: InputFrame[]) {
+    for (const frame of frames) {
+      // Resent or replayed (already have it), or too late (stood in for)
+      if (frame.seq <= Math.max(this.receivedSeq, this.appliedSeq)) continue;
+      this.receivedSeq = frame.seq;
+      this.inputs.push(frame);
+    }
+    if (this.inputs.length > MAX_INPUT_QUEUE) this.inputs.splice(0, this.inputs.length - MAX_INPUT_QUEUE);
+  }
+
+  // A player that lost the link wants back in: send them everything
+  private resume(seat: Seat, request: ResumeRequest) {
+    const link = this.links[seat];
+    if (!this.state || request.sessionId !== this.sessionId) {
+      link.send({ type: 'RESUME_REJECTED', payload: request });
+      return;
+    }
+    link.send({ type: 'RESUME_STATE', payload: { sessionId: request.sessionId, state: this.state } });
+    // Snapshot history is meaningless to them now; start deltas over
+    this.senders[seat]?.restartDeltas();
+  }
+}
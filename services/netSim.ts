@@ -0,0 +1,134 @@
+import { ConnectionMode, DeliveryClass, MessageType, NetworkMessage, Role, TrafficStats } from "../types";
+import { MessageListener, NetworkAdapter } from "./p2p";
+
+// ---------------------------------------------------------
+// NETWORK CONDITION SIMULATOR
+// ---------------------------------------------------------
+// Wraps any adapter and makes it behave like a worse network: latency, jitter,
+// loss, duplication and reordering, each configurable per message type. Applied
+// both ways, so one player turning it on is enough to feel it. Meant for
+// exercising interpolation, resume and trap timing on one machine.
+
+export interface LinkConditions {
+  latency: number; // ms, one way
+  jitter: number; // ms, +/- around the latency
+  loss: number; // 0..1
+  duplicate: number; // 0..1
+  reorder: number; // 0..1, chance a message is held back behind later ones
+}
+
+export interface NetSimConfig {
+  defaults: LinkConditions;
+  perType: Partial<Record<MessageType, Partial<LinkConditions>>>;
+}
+
+export const PERFECT_LINK: LinkConditions = { latency: 0, jitter: 0, loss: 0, duplicate: 0, reorder: 0 };
+
+export const NET_SIM_PRESETS: Record<'LAN' | 'WIFI' | 'MOBILE' | 'AWFUL', LinkConditions> = {
+  LAN: { latency: 2, jitter: 1, loss: 0, duplicate: 0, reorder: 0 },
+  WIFI: { latency: 15, jitter: 10, loss: 0.01, duplicate: 0, reorder: 0 },
+  MOBILE: { latency: 60, jitter: 30, loss: 0.03, duplicate: 0.005, reorder: 0.02 },
+  AWFUL: { latency: 150, jitter: 80, loss: 0.1, duplicate: 0.02, reorder: 0.05 },
+};
+
+// How much longer a reordered message is held than the ones around it
+const REORDER_HOLD_MS = 60;
+// A reliable channel never drops, it resends: a "lost" reliable message shows
+// up this many one-way trips late instead (the resend timeout plus the resend)
+const RETRANSMIT_TRIPS = 3;
+
+type Direction = 'OUT' | 'IN';
+
+export class SimulatedNetwork implements NetworkAdapter {
+  private listeners = new Set<MessageListener>();
+  // Reliable delivery is ordered: each timer hands out the oldest pending one,
+  // so timers firing out of order can't reorder them
+  private reliableQueue: Record<Direction, { at: number; deliver: () => void }[]> = { OUT: [], IN: [] };
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+
+  constructor(private inner: NetworkAdapter, public config: NetSimConfig) {
+    inner.onMessage(msg => this.schedule('IN', msg, () => this.listeners.forEach(listener => listener(msg))));
+  }
+
+  get type(): ConnectionMode {
+    return this.inner.type;
+  }
+
+  get stats(): TrafficStats {
+    return this.inner.stats;
+  }
+
+  connect(role: Role, address?: string) {
+    return this.inner.connect(role, address);
+  }
+
+  reconnect() {
+    return this.inner.reconnect();
+  }
+
+  deliveryOf(type: MessageType): DeliveryClass {
+    return this.inner.deliveryOf(type);
+  }
+
+  send(msg: NetworkMessage) {
+    this.schedule('OUT', msg, () => this.inner.send(msg));
+  }
+
+  onMessage(callback: MessageListener) {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  disconnect() {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.reliableQueue = { OUT: [], IN: [] };
+    this.inner.disconnect();
+  }
+
+  conditionsFor(type: MessageType): LinkConditions {
+    return { ...this.config.defaults, ...this.config.perType[type] };
+  }
+
+  private schedule(direction: Direction, msg: NetworkMessage, deliver: () => void) {
+    const conditions = this.conditionsFor(msg.type);
+    const reliable = this.deliveryOf(msg.type) === 'RELIABLE';
+    const lost = Math.random() < conditions.loss;
+
+    let delay = Math.max(0, conditions.latency + (Math.random() * 2 - 1) * conditions.jitter);
+    if (reliable) {
+      if (lost) delay += conditions.latency * RETRANSMIT_TRIPS;
+      const queue = this.reliableQueue[direction];
+      const now = performance.now();
+      if (delay <= 0 && queue.length === 0) {
+        deliver();
+        return;
+      }
+      const at = Math.max(now + delay, queue.length > 0 ? queue[queue.length - 1].at : 0);
+      queue.push({ at, deliver });
+      this.later(at - now, () => queue.shift()?.deliver());
+      return;
+    }
+
+    if (lost) return;
+    if (Math.random() < conditions.reorder) delay += REORDER_HOLD_MS + conditions.jitter;
+    this.later(delay, deliver);
+    if (Math.random() < conditions.duplicate) {
+      this.later(delay + Math.random() * (conditions.jitter + 1), deliver);
+    }
+  }
+
+  private later(delay: number, deliver: () => void) {
+    if (delay <= 0) {
+      deliver();
+      return;
+    }
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      deliver();
+    }, delay);
+    this.timers.add(timer);
+  }
+}
@@ -1,35 +1,94 @@
-import { ConnectionMode, Role, NetworkMessage } from "../types";
+import { ConnectionMode, DeliveryClass, JoinRoom, MessageType, Role, NetworkMessage, RoomError, TrafficStats, MESSAGE_DELIVERY, SIGNALING_MESSAGES } from "../types";
+import { SignalingTransport, WebSocketSignaling } from "./signaling";
+import { WireData, fromWire, toWire, wireSize } from "./protocol";
+
+export type MessageListener = (msg: NetworkMessage) => void;
 
 export interface NetworkAdapter {
   type: ConnectionMode;
+  stats: TrafficStats;
   connect: (role: Role, address?: string) => Promise<void>;
+  // Tear the link down and bring it back up with the same settings
+  reconnect: () => Promise<void>;
+  // How a message of this type is delivered by this adapter
+  deliveryOf: (type: MessageType) => DeliveryClass;
   send: (msg: NetworkMessage) => void;
-  onMessage: (callback: (msg: NetworkMessage) => void) => void;
+  // Returns a function that removes the listener again
+  onMessage: (callback: MessageListener) => () => void;
   disconnect: () => void;
 }
 
+// ---------------------------------------------------------
+// TRAFFIC COUNTERS
+// ---------------------------------------------------------
+
+export const emptyTrafficStats = (): TrafficStats => ({
+  bytesSent: 0,
+  bytesReceived: 0,
+  messagesSent: 0,
+  messagesReceived: 0,
+  malformed: 0,
+});
+
+const countSent = (stats: TrafficStats, data: WireData) => {
+  stats.bytesSent += wireSize(data);
+  stats.messagesSent++;
+};
+
+const countReceived = (stats: TrafficStats, data: WireData) => {
+  stats.bytesReceived += wireSize(data);
+  stats.messagesReceived++;
+};
+
+const countMalformed = (stats: TrafficStats, data: WireData) => {
+  stats.malformed++;
+  console.warn(`[NET] Dropped malformed message (${wireSize(data)} bytes)`);
+};
+
 // ---------------------------------------------------------
 // STRATEGY 1: BROADCAST CHANNEL (Same Device Loopback)
 // ---------------------------------------------------------
 export class LocalNetwork implements NetworkAdapter {
   type: ConnectionMode = 'LOCAL';
+  stats = emptyTrafficStats();
   private channel: BroadcastChannel | null = null;
-  private messageCallback: ((msg: NetworkMessage) => void) | null = null;
+  private listeners = new Set<MessageListener>();
   private channelName = 'pvp_platformer_local';
+  private role: Role = null;
 
   async connect(role: Role) {
+    this.role = role;
     this.channel = new BroadcastChannel(this.channelName);
     this.channel.onmessage = (event) => {
-      if (this.messageCallback) this.messageCallback(event.data);
+      countReceived(this.stats, event.data);
+      const msg = fromWire(event.data);
+      if (msg) this.listeners.forEach(listener => listener(msg));
+      else countMalformed(this.stats, event.data);
     };
   }
 
+  // BroadcastChannel never drops or reorders, so everything arrives as if reliable
+  deliveryOf(type: MessageType): DeliveryClass {
+    return MESSAGE_DELIVERY[type];
+  }
+
   send(msg: NetworkMessage) {
-    this.channel?.postMessage(msg);
+    if (!this.channel) return;
+    const data = toWire(msg);
+    this.channel.postMessage(data);
+    countSent(this.stats, data);
   }
 
-  onMessage(callback: (msg: NetworkMessage) => void) {
-    this.messageCallback = callback;
+  onMessage(callback: MessageListener) {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  async reconnect() {
+    this.channel?.close();
+    return this.connect(this.role);
   }
 
   disconnect() {
@@ -40,154 +99,498 @@ export class LocalNetwork implements NetworkAdapter {
 // ---------------------------------------------------------
 // STRATEGY 2: FAST UDP (WebRTC Unreliable + TCP Signaling)
 // ---------------------------------------------------------
+// Two data channels: a lossy unordered one for UNRELIABLE traffic and an
+// ordered, retransmitting one for RELIABLE traffic (see MESSAGE_DELIVERY).
+// Peers find each other through a room on the signaling server: the runner
+// creates it, the trapper, rival runners and any spectators join with its
+// code, and each pair of members gets its own link (a full mesh; rooms are
+// small, and every runner's snapshots have to reach everyone). Or, with
+// ManualSignaling, two players swap the offer and answer themselves. If the
+// data channels between two players don't open in time, game traffic falls
+// back to a RelayNetwork over the room server. A spectator's link failing
+// only costs that spectator the link, never the players theirs.
+
+const UNRELIABLE_CHANNEL = 'fast_udp_game';
+const RELIABLE_CHANNEL = 'reliable_game';
+const NEGOTIATION_TIMEOUT_MS = 10000;
+// Rejoining after a reconnect: the server may still hold our old socket's
+// seat for a moment, so a full room is tried again, waiting longer each time
+const REJOIN_ATTEMPTS = 5;
+const REJOIN_DELAY_MS = 250;
+// Stands in for the peer ID when the offer and answer are carried by hand
+const MANUAL_PEER = 'manual';
+
+// STUN servers help finding the public IP/UDP port. Without any, only direct
+// LAN addresses are tried, which is all an offline LAN needs.
+export const DEFAULT_ICE_SERVERS: RTCIceServer[] = [
+  { urls: 'stun:stun.l.google.com:19302' },
+  { urls: 'stun:stun1.l.google.com:19302' },
+];
+
+// One server per entry, separated by spaces, commas or new lines. TURN
+// credentials go in front of the host: turn:user:pass@host:3478
+export const parseIceServers = (text: string): RTCIceServer[] =>
+  text.split(/[\s,]+/).filter(Boolean).map(entry => {
+    const turn = entry.match(/^(turns?):([^:@]+):([^@]+)@(.+)$/);
+    return turn
+      ? { urls: `${turn[1]}:${turn[4]}`, username: turn[2], credential: turn[3] }
+      : { urls: entry };
+  });
+
+export const formatIceServers = (servers: RTCIceServer[]): string =>
+  servers.map(server => {
+    const url = Array.isArray(server.urls) ? server.urls[0] : server.urls;
+    if (!server.username) return url;
+    const [scheme, ...rest] = url.split(':');
+    return `${scheme}:${server.username}:${server.credential}@${rest.join(':')}`;
+  }).join('\n');
+
+// One direct link to another member of the room
+interface PeerLink {
+  connection: RTCPeerConnection;
+  channels: Record<DeliveryClass, RTCDataChannel | null>;
+  negotiationTimer?: ReturnType<typeof setTimeout>;
+}
+
 export class UDPNetwork implements NetworkAdapter {
-  type: ConnectionMode = 'UDP_P2P';
-  private signalingWs: WebSocket | null = null;
-  private peerConnection: RTCPeerConnection | null = null;
-  private dataChannel: RTCDataChannel | null = null;
-  private messageCallback: ((msg: NetworkMessage) => void) | null = null;
+  stats = emptyTrafficStats();
+  private signaling: SignalingTransport | null = null;
+  // Set once the direct links have been given up on
+  private relay: RelayNetwork | null = null;
+  // One per other member of the room, keyed by the peer ID the server gave them
+  private peers = new Map<string, PeerLink>();
+  // Their roles, as far as PEER_JOINED and their signals told us
+  private peerRoles = new Map<string, Role>();
+  private listeners = new Set<MessageListener>();
+  private typeListeners = new Set<(type: ConnectionMode) => void>();
+  private announcedType: ConnectionMode = 'UDP_P2P';
   private role: Role = null;
+  private roomCode: string | null = null;
+  // A match server room: no peer link at all, the server plays the match and
+  // all game traffic goes to it
+  private authoritative = false;
+  // The CREATE_ROOM / JOIN_ROOM request waiting on the server's answer
+  private pendingRoom: { resolve: (code: string) => void; reject: (error: RoomError) => void } | null = null;
+
+  constructor(private iceServers: RTCIceServer[] = DEFAULT_ICE_SERVERS) {}
+
+  get type(): ConnectionMode {
+    if (this.authoritative) return 'MATCH_SERVER';
+    return this.relay ? this.relay.type : 'UDP_P2P';
+  }
+
+  // `type` changes under the app's feet: entering a match server room, or
+  // falling back to the relay. Returns a function that removes the listener.
+  onTypeChange(callback: (type: ConnectionMode) => void) {
+    this.typeListeners.add(callback);
+    return () => {
+      this.typeListeners.delete(callback);
+    };
+  }
+
+  private announceType() {
+    const type = this.type;
+    if (type === this.announcedType) return;
+    this.announcedType = type;
+    this.typeListeners.forEach(listener => listener(type));
+  }
 
-  // STUN servers help finding the public IP/UDP port
-  private rtcConfig: RTCConfiguration = {
-    iceServers: [
-      { urls: 'stun:stun.l.google.com:19302' },
-      { urls: 'stun:stun1.l.google.com:19302' }
-    ]
-  };
+  // Takes effect on the next handshake
+  setIceServers(servers: RTCIceServer[]) {
+    this.iceServers = servers;
+  }
+
+  getIceServers(): RTCIceServer[] {
+    return this.iceServers;
+  }
 
+  // Through the room server (TCP)
   async connect(role: Role, address: string = 'localhost'): Promise<void> {
+    return this.connectWith(role, new WebSocketSignaling(address, data => countMalformed(this.stats, data)));
+  }
+
+  async connectWith(role: Role, signaling: SignalingTransport): Promise<void> {
     this.role = role;
-    return new Promise((resolve, reject) => {
-      // 1. Connect to Signaling Server (TCP)
-      console.log(`[UDP_NET] Connecting to Signaling Server at ws://${address}:8080`);
-      this.signalingWs = new WebSocket(`ws://${address}:8080`);
-
-      this.signalingWs.onopen = () => {
-        console.log("[UDP_NET] Connected to Signaling. Initiating UDP Handshake...");
-        this.initiatePeerConnection();
-        resolve();
-      };
+    this.signaling = signaling;
+    signaling.onMessage(msg => this.handleSignalingMessage(msg));
+    await signaling.open();
+  }
 
-      this.signalingWs.onerror = (err) => {
-        console.error("[UDP_NET] Signaling Error", err);
-        reject(err);
-      };
+  // Without a room server nothing tells us when to start: the runner offers,
+  // the trapper waits for the offer it's about to be handed
+  beginHandshake() {
+    if (this.role === 'RUNNER') this.openLink(MANUAL_PEER, true);
+  }
 
-      this.signalingWs.onmessage = async (event) => {
-        let data = event.data;
-        if (data instanceof Blob) data = await data.text();
-        try {
-          const msg = JSON.parse(data as string) as NetworkMessage;
-          this.handleSignalingMessage(msg);
-        } catch (e) {
-          console.error("Signal Parse Error", e);
-        }
-      };
+  // Host: open a room and get the code the trapper has to enter. An
+  // authoritative room has the server run the match (see type).
+  createRoom(authoritative = false): Promise<string> {
+    return this.requestRoom({ type: 'CREATE_ROOM', payload: { authoritative } });
+  }
+
+  // Guest: join the host's room; everyone already in it offers us a link
+  async joinRoom(code: string): Promise<void> {
+    const payload: JoinRoom = { code: code.trim().toUpperCase(), role: this.role ?? undefined };
+    await this.requestRoom({ type: 'JOIN_ROOM', payload });
+  }
+
+  getRoomCode(): string | null {
+    return this.roomCode;
+  }
+
+  private requestRoom(msg: NetworkMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.pendingRoom = { resolve, reject };
+      this.signaling?.send(msg);
     });
   }
 
-  private initiatePeerConnection() {
-    this.peerConnection = new RTCPeerConnection(this.rtcConfig);
+  // The offering side creates the data channels, the answering side receives them
+  private openLink(peerId: string, offerer: boolean): PeerLink {
+    this.closeLink(peerId);
+    const connection = new RTCPeerConnection({ iceServers: this.iceServers });
+    const link: PeerLink = { connection, channels: { RELIABLE: null, UNRELIABLE: null } };
+    this.peers.set(peerId, link);
+    // Only the room server can relay, a manual link has nothing to fall back on
+    if (this.signaling instanceof WebSocketSignaling) {
+      link.negotiationTimer = setTimeout(() => this.handleNegotiationTimeout(peerId), NEGOTIATION_TIMEOUT_MS);
+    }
 
-    this.peerConnection.onicecandidate = (event) => {
-      if (event.candidate) {
-        this.sendSignal({ type: 'SIGNAL_ICE', payload: event.candidate });
+    connection.onicecandidate = (event) => {
+      if (event.candidate && this.signaling?.trickleIce) {
+        this.sendSignal(peerId, { type: 'SIGNAL_ICE', payload: event.candidate });
       }
     };
 
-    if (this.role === 'RUNNER') {
-      // Host creates the Data Channel
+    if (offerer) {
       // CRITICAL: ordered: false, maxRetransmits: 0 makes this behave like UDP!
-      const channel = this.peerConnection.createDataChannel("fast_udp_game", {
+      const fast = connection.createDataChannel(UNRELIABLE_CHANNEL, {
         ordered: false, 
         maxRetransmits: 0 
       });
-      this.setupDataChannel(channel);
-      this.createOffer();
+      // Defaults (ordered, unlimited retransmits) behave like TCP
+      const reliable = connection.createDataChannel(RELIABLE_CHANNEL);
+      this.setupDataChannel(link, 'UNRELIABLE', fast);
+      this.setupDataChannel(link, 'RELIABLE', reliable);
+      this.createOffer(peerId, link);
     } else {
-      // Guest waits for Data Channel
-      this.peerConnection.ondatachannel = (event) => {
-        this.setupDataChannel(event.channel);
+      // Tell the incoming Data Channels apart by label
+      connection.ondatachannel = (event) => {
+        const delivery: DeliveryClass = event.channel.label === RELIABLE_CHANNEL ? 'RELIABLE' : 'UNRELIABLE';
+        this.setupDataChannel(link, delivery, event.channel);
       };
     }
+    return link;
   }
 
-  private setupDataChannel(channel: RTCDataChannel) {
-    this.dataChannel = channel;
-    this.dataChannel.onopen = () => {
-      console.log("[UDP_NET] UDP Data Channel OPEN! High-speed link established.");
-      // Optional: We could close signalingWs here, but keeping it is fine for fallback
-      this.send({ type: 'PING' }); // Wake up the app logic
-    };
-    this.dataChannel.onmessage = (event) => {
-      try {
-        const msg = JSON.parse(event.data);
-        if (this.messageCallback) this.messageCallback(msg);
-      } catch (e) {
-        // Ignore malformed UDP packets
+  private isOpen(link: PeerLink, delivery: DeliveryClass): boolean {
+    return link.channels[delivery]?.readyState === 'open';
+  }
+
+  private setupDataChannel(link: PeerLink, delivery: DeliveryClass, channel: RTCDataChannel) {
+    link.channels[delivery] = channel;
+    channel.binaryType = 'arraybuffer';
+    channel.onopen = () => {
+      console.log(`[UDP_NET] ${delivery} Data Channel OPEN!`);
+      if (this.isOpen(link, 'RELIABLE') && this.isOpen(link, 'UNRELIABLE')) {
+        console.log("[UDP_NET] High-speed link established.");
+        clearTimeout(link.negotiationTimer);
+        // Wake up the app logic, on this link only: the others are up already
+        this.sendOn(link, 'PING', toWire({ type: 'PING', role: this.role }));
       }
     };
+    channel.onmessage = (event) => {
+      countReceived(this.stats, event.data);
+      const msg = fromWire(event.data);
+      if (msg) this.listeners.forEach(listener => listener(msg));
+      else countMalformed(this.stats, event.data);
+    };
   }
 
-  private async createOffer() {
-    if (!this.peerConnection) return;
-    const offer = await this.peerConnection.createOffer();
-    await this.peerConnection.setLocalDescription(offer);
-    this.sendSignal({ type: 'SIGNAL_OFFER', payload: offer });
+  private async createOffer(peerId: string, link: PeerLink) {
+    const offer = await link.connection.createOffer();
+    await link.connection.setLocalDescription(offer);
+    this.sendSignal(peerId, { type: 'SIGNAL_OFFER', payload: await this.localDescription(link, offer) });
+  }
+
+  // With trickle ICE the bare description goes out right away; otherwise wait
+  // for gathering to finish so the description carries every candidate
+  private localDescription(link: PeerLink, fallback: RTCSessionDescriptionInit): Promise<RTCSessionDescriptionInit> {
+    const pc = link.connection;
+    if (this.signaling?.trickleIce) return Promise.resolve(fallback);
+    return new Promise(resolve => {
+      const done = () => {
+        if (pc.iceGatheringState !== 'complete') return;
+        pc.removeEventListener('icegatheringstatechange', done);
+        resolve(pc.localDescription ?? fallback);
+      };
+      pc.addEventListener('icegatheringstatechange', done);
+      done();
+    });
   }
 
   private async handleSignalingMessage(msg: NetworkMessage) {
-    if (!this.peerConnection) return;
+    // Game traffic on the signaling socket: a player gave up on the direct
+    // link, so there's no point in waiting for ours. A spectator that did
+    // only gave up on its own links.
+    if (!SIGNALING_MESSAGES.has(msg.type)) {
+      const sender = msg.role ?? (msg.from ? this.peerRoles.get(msg.from) : undefined);
+      if (sender !== 'SPECTATOR') this.fallBackToRelay();
+      return;
+    }
 
-    // Ignore messages from self if reflected by simple broadcast server
-    // (In a simple broadcast, we get our own messages back, so we filter by role roughly)
-    // Actually, simple check: if I am RUNNER, I ignore OFFER. If TRAPPER, I ignore ANSWER.
-    
-    if (msg.type === 'SIGNAL_OFFER' && this.role === 'TRAPPER') {
+    // Room bookkeeping
+    if (msg.type === 'ROOM_CREATED' || msg.type === 'ROOM_JOINED') {
+       const { code, authoritative } = msg.payload;
+       console.log(`[UDP_NET] In room ${code}${authoritative ? ' (match server)' : ''}`);
+       this.roomCode = code;
+       this.authoritative = authoritative === true;
+       if (this.authoritative && this.signaling instanceof WebSocketSignaling) {
+         this.startRelay(this.signaling);
+       }
+       this.announceType();
+       this.pendingRoom?.resolve(code);
+       this.pendingRoom = null;
+       return;
+    }
+    if (msg.type === 'ROOM_ERROR') {
+       console.warn("[UDP_NET] Room error", msg.payload);
+       this.pendingRoom?.reject(msg.payload);
+       this.pendingRoom = null;
+       return;
+    }
+    if (msg.type === 'PEER_JOINED') {
+       this.peerRoles.set(msg.payload.peerId, msg.payload.role ?? null);
+       // Newcomers wait for offers from everyone already in the room. Once
+       // the room is relayed they get everything through the server instead.
+       if (this.authoritative || this.relay) return;
+       console.log(`[UDP_NET] Peer ${msg.payload.peerId} joined room, offering`);
+       this.openLink(msg.payload.peerId, true);
+       return;
+    }
+    if (msg.type === 'PEER_LEFT') {
+       console.log(`[UDP_NET] Peer ${msg.payload.peerId} left room`);
+       this.closeLink(msg.payload.peerId);
+       this.peerRoles.delete(msg.payload.peerId);
+       return;
+    }
+
+    const peerId = msg.from ?? MANUAL_PEER;
+    if (msg.role) this.peerRoles.set(peerId, msg.role);
+
+    if (msg.type === 'SIGNAL_OFFER') {
+       if (this.authoritative) return;
        console.log("[UDP_NET] Received Offer");
-       await this.peerConnection.setRemoteDescription(new RTCSessionDescription(msg.payload));
-       const answer = await this.peerConnection.createAnswer();
-       await this.peerConnection.setLocalDescription(answer);
-       this.sendSignal({ type: 'SIGNAL_ANSWER', payload: answer });
+       const link = this.openLink(peerId, false);
+       await link.connection.setRemoteDescription(new RTCSessionDescription(msg.payload));
+       const answer = await link.connection.createAnswer();
+       await link.connection.setLocalDescription(answer);
+       this.sendSignal(peerId, { type: 'SIGNAL_ANSWER', payload: await this.localDescription(link, answer) });
+       return;
     }
-    else if (msg.type === 'SIGNAL_ANSWER' && this.role === 'RUNNER') {
+
+    const link = this.peers.get(peerId);
+    if (!link) return;
+
+    if (msg.type === 'SIGNAL_ANSWER') {
+       // A second answer (pasted or scanned twice) once negotiation is under way
+       if (link.connection.signalingState !== 'have-local-offer') return;
        console.log("[UDP_NET] Received Answer");
-       await this.peerConnection.setRemoteDescription(new RTCSessionDescription(msg.payload));
+       await link.connection.setRemoteDescription(new RTCSessionDescription(msg.payload));
     }
     else if (msg.type === 'SIGNAL_ICE') {
-       // A bit naive, but try to add all candidates that aren't ours
        try {
-         await this.peerConnection.addIceCandidate(new RTCIceCandidate(msg.payload));
+         await link.connection.addIceCandidate(new RTCIceCandidate(msg.payload));
        } catch (e) {
          // Candidate might be for the other state or invalid, ignore
        }
     }
   }
 
-  private sendSignal(msg: NetworkMessage) {
-    if (this.signalingWs?.readyState === WebSocket.OPEN) {
-      this.signalingWs.send(JSON.stringify(msg));
+  // To one peer of the room (with our role, so they know whose link it is);
+  // a manual link only has the one
+  private sendSignal(peerId: string, msg: NetworkMessage) {
+    const signal = { ...msg, role: this.role };
+    this.signaling?.send(peerId === MANUAL_PEER ? signal : { ...signal, to: peerId });
+  }
+
+  // A link between two players that won't open takes the whole room through
+  // the server: the other players notice our traffic on their signaling
+  // sockets and follow. A spectator's link is just dropped; the spectator
+  // can still watch once the room is relayed for other reasons.
+  private handleNegotiationTimeout(peerId: string) {
+    if (this.role !== 'SPECTATOR' && this.peerRoles.get(peerId) !== 'SPECTATOR') {
+      this.fallBackToRelay();
+      return;
     }
+    console.warn(`[UDP_NET] Spectator link to ${peerId} did not open, dropping it`);
+    this.closeLink(peerId);
+  }
+
+  private fallBackToRelay() {
+    if (this.relay || !(this.signaling instanceof WebSocketSignaling)) return;
+    console.warn("[UDP_NET] No direct link, relaying through the signaling server");
+    this.startRelay(this.signaling);
+  }
+
+  private startRelay(signaling: WebSocketSignaling) {
+    this.closeLinks();
+    this.stopRelay();
+    this.relay = new RelayNetwork(signaling, this.stats);
+    this.relay.onMessage(msg => this.listeners.forEach(listener => listener(msg)));
+    this.relay.connect(this.role);
+    this.send({ type: 'PING', role: this.role }); // Wake up the app logic, like the channels opening would
+    this.announceType();
+  }
+
+  private stopRelay() {
+    this.relay?.disconnect();
+    this.relay = null;
+    this.announceType();
   }
 
+  deliveryOf(type: MessageType): DeliveryClass {
+    return this.relay ? this.relay.deliveryOf(type) : MESSAGE_DELIVERY[type];
+  }
+
+  // To every peer of the room
   send(msg: NetworkMessage) {
-    // Send via UDP DataChannel if open
-    if (this.dataChannel?.readyState === 'open') {
-      this.dataChannel.send(JSON.stringify(msg));
-    } else {
+    if (this.relay) {
+      this.relay.send(msg);
+      return;
+    }
+    const data = toWire(msg);
+    let sent = false;
+    this.peers.forEach(link => {
+      if (this.sendOn(link, msg.type, data)) sent = true;
+    });
+    if (!sent) {
         // Fallback or early state: can't send game data yet
         console.warn("[UDP_NET] UDP Channel not ready, dropping packet:", msg.type);
     }
   }
 
-  onMessage(callback: (msg: NetworkMessage) => void) {
-    this.messageCallback = callback;
+  // Unreliable traffic may ride the reliable channel while the fast one is
+  // still opening, never the other way round
+  private sendOn(link: PeerLink, type: MessageType, data: WireData): boolean {
+    const delivery = this.deliveryOf(type);
+    const channel = this.isOpen(link, delivery) || delivery === 'RELIABLE' ? link.channels[delivery] : link.channels.RELIABLE;
+    if (channel?.readyState !== 'open') return false;
+
+    // send() is overloaded per payload type, so narrow before calling it
+    if (typeof data === 'string') channel.send(data);
+    else channel.send(data);
+    countSent(this.stats, data);
+    return true;
+  }
+
+  onMessage(callback: MessageListener) {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  private closeLink(peerId: string) {
+    const link = this.peers.get(peerId);
+    if (!link) return;
+    clearTimeout(link.negotiationTimer);
+    link.channels.RELIABLE?.close();
+    link.channels.UNRELIABLE?.close();
+    link.connection.close();
+    this.peers.delete(peerId);
+  }
+
+  private closeLinks() {
+    [...this.peers.keys()].forEach(peerId => this.closeLink(peerId));
+  }
+
+  // Back through the signaling server into the same room, e.g. after the peer link died
+  async reconnect() {
+    if (!(this.signaling instanceof WebSocketSignaling)) {
+      // Nobody to relay a new offer: the players have to swap blobs again
+      throw new Error('Manual links cannot reconnect on their own');
+    }
+    const { address } = this.signaling;
+    const code = this.roomCode;
+    this.disconnect();
+    await this.connect(this.role, address);
+    if (code) await this.rejoinRoom(code);
+  }
+
+  private async rejoinRoom(code: string) {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.joinRoom(code);
+        return;
+      } catch (error) {
+        if ((error as RoomError).reason !== 'FULL' || attempt >= REJOIN_ATTEMPTS) throw error;
+        console.log(`[UDP_NET] Room ${code} still full, retrying (${attempt}/${REJOIN_ATTEMPTS})`);
+        await new Promise(resolve => setTimeout(resolve, REJOIN_DELAY_MS * 2 ** (attempt - 1)));
+      }
+    }
+  }
+
+  disconnect() {
+    this.closeLinks();
+    this.stopRelay();
+    this.signaling?.close();
+  }
+}
+
+// ---------------------------------------------------------
+// STRATEGY 3: WEBSOCKET RELAY (TCP through the Signaling Server)
+// ---------------------------------------------------------
+// For networks WebRTC can't get through (strict firewalls, or no STUN server
+// reachable). Rides a signaling socket that is already in a room: the server
+// passes everything that isn't signaling on to the rest of the room. It's a single
+// ordered TCP stream, so every message arrives as if RELIABLE, late rather
+// than never.
+
+export class RelayNetwork implements NetworkAdapter {
+  type: ConnectionMode = 'WS_RELAY';
+  private listeners = new Set<MessageListener>();
+  private unsubscribe: (() => void) | null = null;
+  private role: Role = null;
+
+  constructor(private signaling: WebSocketSignaling, public stats: TrafficStats = emptyTrafficStats()) {}
+
+  async connect(role: Role) {
+    this.role = role;
+    this.unsubscribe?.();
+    this.unsubscribe = this.signaling.onMessage(msg => {
+      if (SIGNALING_MESSAGES.has(msg.type)) return;
+      countReceived(this.stats, toWire(msg));
+      this.listeners.forEach(listener => listener(msg));
+    });
+    if (!this.signaling.isOpen()) await this.signaling.open();
+  }
+
+  deliveryOf(_type: MessageType): DeliveryClass {
+    return 'RELIABLE';
+  }
+
+  send(msg: NetworkMessage) {
+    const data = toWire(msg);
+    if (this.signaling.sendRaw(data)) countSent(this.stats, data);
+  }
+
+  onMessage(callback: MessageListener) {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  // Reopens the socket only; getting back into the room is up to whoever
+  // opened it (UDPNetwork.reconnect does both)
+  async reconnect() {
+    return this.connect(this.role);
   }
 
+  // The socket belongs to the signaling side, so it stays open
   disconnect() {
-    this.dataChannel?.close();
-    this.peerConnection?.close();
-    this.signalingWs?.close();
+    this.unsubscribe?.();
+    this.unsubscribe = null;
   }
 }
\ No newline at end of file
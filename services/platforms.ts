@@ -0,0 +1,74 @@
+import { Platform, PlatformKind, Point, SIM_TICK_MS } from '../types';
+
+// ---------------------------------------------------------
+// PLATFORM KINDS
+// ---------------------------------------------------------
+
+export const PLATFORM_DEFAULTS = {
+  speed: 1.5,
+  crumbleDelay: 600,
+  restitution: 1.1,
+  friction: 0.04,
+};
+
+export const platformKind = (p: Platform): PlatformKind => p.kind ?? 'STATIC';
+
+export const isMoving = (p: Platform): boolean =>
+  platformKind(p) === 'MOVING' && !!p.path && p.path.length >= 2;
+
+// Position along a ping-ponging polyline after `tick` ticks. Derived from the tick
+// alone so movers never drift between machines.
+export const positionOnPath = (path: Point[], speed: number, tick: number): Point => {
+  const segments = path.slice(1).map((to, i) => {
+    const from = path[i];
+    return { from, to, length: Math.hypot(to.x - from.x, to.y - from.y) };
+  });
+  const total = segments.reduce((sum, seg) => sum + seg.length, 0);
+  if (total === 0) return path[0];
+
+  let distance = (speed * tick) % (total * 2);
+  if (distance > total) distance = total * 2 - distance;
+
+  for (const seg of segments) {
+    if (distance <= seg.length) {
+      const t = seg.length === 0 ? 0 : distance / seg.length;
+      return {
+        x: seg.from.x + (seg.to.x - seg.from.x) * t,
+        y: seg.from.y + (seg.to.y - seg.from.y) * t,
+      };
+    }
+    distance -= seg.length;
+  }
+  return path[path.length - 1];
+};
+
+// Put moving platforms where they are at `tick`, leaving everything else alone
+export const placePlatforms = (level: Platform[], tick: number): Platform[] =>
+  level.map(p => {
+    if (!isMoving(p)) return p;
+    const pos = positionOnPath(p.path!, p.speed ?? PLATFORM_DEFAULTS.speed, tick);
+    return { ...p, x: pos.x, y: pos.y };
+  });
+
+// Move platforms to where they are at `tick` and count down crumbling ones.
+// Platforms whose crumble timer ran out are dropped from the level.
+export const advancePlatforms = (level: Platform[], tick: number): Platform[] =>
+  placePlatforms(level, tick)
+    .map(p => {
+      if (p.crumbleTimer !== undefined) {
+        return { ...p, crumbleTimer: p.crumbleTimer - SIM_TICK_MS };
+      }
+      return p;
+    })
+    .filter(p => p.crumbleTimer === undefined || p.crumbleTimer > 0);
+
+// Start the countdown on a crumbling platform the first time it is stood on
+export const triggerCrumble = (level: Platform[], id: string): Platform[] =>
+  level.map(p =>
+    p.id === id && platformKind(p) === 'CRUMBLING' && p.crumbleTimer === undefined
+      ? { ...p, crumbleTimer: p.crumbleDelay ?? PLATFORM_DEFAULTS.crumbleDelay }
+      : p
+  );
+
+// Walls and ceilings: one-way platforms can be passed from the side and from below
+export const blocksSides = (p: Platform): boolean => platformKind(p) !== 'ONE_WAY';
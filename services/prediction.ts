@@ -0,0 +1,88 @@
+import { GameStart, GameState, InputFrame, LevelUpdate, RunnerInput } from '../types';
+import { NetworkAdapter } from './p2p';
+import { createGameState, step } from './simulation';
+import { SnapshotInbox } from './stateSync';
+
+// ---------------------------------------------------------
+// CLIENT-SIDE PREDICTION (RUNNER, MATCH SERVER MODE)
+// ---------------------------------------------------------
+// With the match server in charge the runner only sends inputs. To keep
+// movement instant it simulates each input locally right away. Every
+// snapshot from the server says which inputs it has applied; the runner
+// rewinds to that state and replays the ones still in flight on top.
+// Traps only ever show up through the server's state.
+
+// How far apart predicted and confirmed runner may be before it counts as a
+// correction (snapshots round positions to 1/8 px)
+const CORRECTION_EPSILON = 0.5;
+// Inputs kept for replay; with no snapshot for this long the server is gone anyway
+const MAX_PENDING_INPUTS = 600;
+
+export interface PredictionStats {
+  pendingInputs: number; // Sent, not yet confirmed by a snapshot
+  corrections: number; // Snapshots that moved the runner
+  lastError: number; // px, size of the latest correction
+}
+
+export class RunnerPredictor {
+  state: GameState;
+  private confirmed: GameState;
+  private inbox: SnapshotInbox;
+  private seq = 0;
+  private pending: InputFrame[] = [];
+  private outbox: InputFrame[] = [];
+  private corrections = 0;
+  private lastError = 0;
+
+  constructor(private network: NetworkAdapter, start: GameStart) {
+    this.state = createGameState(start.level, start.seed ?? 0);
+    this.confirmed = this.state;
+    this.inbox = new SnapshotInbox(network, start.level);
+  }
+
+  // One fixed tick with this input, applied locally and queued for the server
+  step(input: RunnerInput): GameState {
+    const frame: InputFrame = { seq: ++this.seq, input };
+    this.pending.push(frame);
+    if (this.pending.length > MAX_PENDING_INPUTS) this.pending.shift();
+    this.outbox.push(frame);
+    this.state = step(this.state, input, []);
+    return this.state;
+  }
+
+  // Send the inputs gathered since the last call, once per rendered frame
+  flush() {
+    if (this.outbox.length === 0) return;
+    this.network.send({ type: 'RUNNER_INPUT', payload: { frames: this.outbox } });
+    this.outbox = [];
+  }
+
+  handleLevelUpdate(update: LevelUpdate) {
+    this.inbox.handleLevelUpdate(update);
+  }
+
+  handleSnapshot(data: ArrayBuffer) {
+    const snapshot = this.inbox.receive(data);
+    if (!snapshot) return;
+
+    this.confirmed = snapshot.state;
+    this.pending = this.pending.filter(frame => frame.seq > snapshot.inputSeq);
+    const replayed = this.pending.reduce((state, frame) => step(state, frame.input, []), snapshot.state);
+
+    const error = Math.hypot(replayed.player.x - this.state.player.x, replayed.player.y - this.state.player.y);
+    if (error > CORRECTION_EPSILON) {
+      this.corrections++;
+      this.lastError = error;
+    }
+    this.state = replayed;
+  }
+
+  // The run is over when the server says so, not when the prediction thinks it is
+  confirmedStatus(): GameState['gameStatus'] {
+    return this.confirmed.gameStatus;
+  }
+
+  getStats(): PredictionStats {
+    return { pendingInputs: this.pending.length, corrections: this.corrections, lastError: this.lastError };
+  }
+}
@@ -0,0 +1,220 @@
+import {
+  Hello, HazardKind, MessageType, NetworkMessage, PickupKind, PlatformKind,
+  TrapRejectReason, TrapType,
+} from "../types";
+
+// ---------------------------------------------------------
+// PROTOCOL
+// ---------------------------------------------------------
+// Whatever arrives from the other peer is checked against the shape its type
+// promises before anyone gets to see it. A message that fails is dropped and
+// counted as malformed (TrafficStats.malformed).
+
+// Bump on any change to a message type or payload shape
+export const PROTOCOL_VERSION = 6;
+
+export const HELLO: Hello = { protocolVersion: PROTOCOL_VERSION };
+
+type Check = (value: unknown) => boolean;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber: Check = value => typeof value === 'number' && Number.isFinite(value);
+const isString: Check = value => typeof value === 'string';
+const isBoolean: Check = value => typeof value === 'boolean';
+const isNone: Check = value => value === undefined;
+
+const optional = (check: Check): Check => value => value === undefined || check(value);
+const nullable = (check: Check): Check => value => value === null || check(value);
+const oneOf = (values: readonly unknown[]): Check => value => values.includes(value);
+const arrayOf = (check: Check): Check => value => Array.isArray(value) && value.every(check);
+
+// Extra fields are let through; only the listed ones have to be right
+const shape = (fields: Record<string, Check>): Check => value =>
+  isObject(value) && Object.entries(fields).every(([key, check]) => check(value[key]));
+
+// ----- Game types -----
+
+// Spelled out as records so adding a kind to the type without adding it here
+// fails to compile
+const PLATFORM_KINDS = Object.keys({
+  STATIC: true, MOVING: true, CRUMBLING: true, BOUNCY: true, ICE: true, ONE_WAY: true,
+} satisfies Record<PlatformKind, true>);
+const HAZARD_KINDS = Object.keys({ SPIKES: true, LAVA: true, CRUSHER: true } satisfies Record<HazardKind, true>);
+const PICKUP_KINDS = Object.keys({ RECHARGE: true, EXTRA_REVIVE: true } satisfies Record<PickupKind, true>);
+const REJECT_REASONS = Object.keys({
+  UNKNOWN_TRAP: true, COOLDOWN: true, ENERGY: true, INVALID_PLACEMENT: true,
+} satisfies Record<TrapRejectReason, true>);
+
+const isRole = oneOf(['RUNNER', 'TRAPPER', 'SPECTATOR', null]);
+const isTrapType = oneOf(Object.values(TrapType));
+const isTrapTimers: Check = value =>
+  isObject(value) && Object.entries(value).every(([key, ms]) => isTrapType(key) && isNumber(ms));
+
+const point = shape({ x: isNumber, y: isNumber });
+const rect = { x: isNumber, y: isNumber, width: isNumber, height: isNumber };
+
+const platform = shape({
+  ...rect,
+  id: isString,
+  kind: optional(oneOf(PLATFORM_KINDS)),
+  path: optional(arrayOf(point)),
+  speed: optional(isNumber),
+  crumbleDelay: optional(isNumber),
+  crumbleTimer: optional(isNumber),
+  restitution: optional(isNumber),
+  friction: optional(isNumber),
+});
+
+const hazard = shape({
+  ...rect,
+  id: isString,
+  kind: oneOf(HAZARD_KINDS),
+  path: optional(arrayOf(point)),
+  speed: optional(isNumber),
+});
+
+const checkpoint = shape({ ...rect, id: isString });
+const pickup = shape({ id: isString, kind: oneOf(PICKUP_KINDS), x: isNumber, y: isNumber });
+
+const levelFields = {
+  platforms: arrayOf(platform),
+  hazards: arrayOf(hazard),
+  checkpoints: arrayOf(checkpoint),
+  pickups: arrayOf(pickup),
+  length: optional(isNumber),
+  code: optional(isString),
+};
+
+const placedTrap = shape({ id: isString, type: isTrapType, x: isNumber, y: isNumber, platformId: nullable(isString) });
+const armingTrap = shape({
+  id: isString, type: isTrapType, remaining: isNumber, x: isNumber, y: isNumber, platformId: nullable(isString),
+});
+
+const trapRejectionFields = { trapId: isString, trapType: isTrapType, reason: oneOf(REJECT_REASONS) };
+
+const player = shape({
+  x: isNumber,
+  y: isNumber,
+  vx: isNumber,
+  vy: isNumber,
+  isGrounded: isBoolean,
+  groundId: nullable(isString),
+  isDead: isBoolean,
+  facing: isNumber,
+  abilities: shape({ dashTimer: isNumber, dashCooldown: isNumber, shieldCooldown: isNumber, shieldActive: isBoolean }),
+  effects: isTrapTimers,
+  windDirection: isNumber,
+  invulnerableTimer: isNumber,
+});
+
+const gameState = shape({
+  isPlaying: isBoolean,
+  gameStatus: oneOf(['IDLE', 'PLAYING', 'WON', 'LOST']),
+  level: arrayOf(platform),
+  hazards: arrayOf(hazard),
+  checkpoints: arrayOf(checkpoint),
+  activeCheckpointId: nullable(isString),
+  pickups: arrayOf(pickup),
+  placedTraps: arrayOf(placedTrap),
+  armingTraps: arrayOf(armingTrap),
+  trapper: shape({ energy: isNumber, cooldowns: isTrapTimers }),
+  events: arrayOf(shape({ kind: oneOf(['TRAP_REJECTED']), ...trapRejectionFields })),
+  player,
+  revives: isNumber,
+  timeElapsed: isNumber,
+  levelLength: isNumber,
+  tick: isNumber,
+  rngState: isNumber,
+});
+
+// ----- Messages -----
+
+const linkProbe = shape({ seq: isNumber, sentAt: isNumber });
+const hello = shape({ protocolVersion: isNumber, clientId: optional(isString) });
+const roomInfo = shape({ code: isString, authoritative: optional(isBoolean) });
+const peerInfo = shape({ code: isString, peerId: isString, role: optional(isRole) });
+const lane = optional(isNumber);
+const sessionRef = shape({ sessionId: isString });
+const runnerInput = shape({ left: isBoolean, right: isBoolean, jump: isBoolean, dash: isBoolean, shield: isBoolean });
+const series = shape({
+  id: isString,
+  rounds: isNumber,
+  players: arrayOf(isString),
+  results: arrayOf(shape({ round: isNumber, status: oneOf(['WON', 'LOST']), time: isNumber, revivesUsed: isNumber })),
+});
+const sessionDescription = shape({ type: oneOf(['offer', 'answer', 'pranswer', 'rollback']), sdp: optional(isString) });
+
+const PAYLOAD_CHECKS: Record<MessageType, Check> = {
+  PING: optional(linkProbe),
+  PONG: linkProbe,
+  JOIN_LOBBY: optional(hello),
+  ACK_JOIN: optional(hello),
+  CHAT_MSG: shape({ id: isString, sender: isRole, text: isString, timestamp: isNumber }),
+  START_GAME: shape({
+    sessionId: isString,
+    level: shape(levelFields),
+    seed: optional(isNumber),
+    runners: optional(arrayOf(isString)),
+    series: optional(series),
+  }),
+  SNAPSHOT: value => value instanceof ArrayBuffer,
+  SNAPSHOT_ACK: shape({ seq: isNumber, levelVersion: isNumber, lane, receiver: optional(isString) }),
+  LEVEL_UPDATE: shape({ ...levelFields, version: isNumber, lane }),
+  TRAP_TRIGGER: shape({ id: isString, type: isTrapType, timestamp: isNumber, position: optional(point), lane }),
+  TRAP_REJECTED: shape(trapRejectionFields),
+  RESUME_REQUEST: sessionRef,
+  RESUME_STATE: shape({ sessionId: isString, state: gameState, lane }),
+  RESUME_REJECTED: sessionRef,
+  WATCH_REQUEST: isNone,
+  RUNNER_INPUT: shape({ frames: arrayOf(shape({ seq: isNumber, input: runnerInput })) }),
+  ROUND_RESULT: series,
+  CREATE_ROOM: optional(shape({ authoritative: optional(isBoolean) })),
+  ROOM_CREATED: roomInfo,
+  JOIN_ROOM: shape({ code: isString, role: optional(isRole) }),
+  ROOM_JOINED: roomInfo,
+  ROOM_ERROR: shape({ code: isString, reason: oneOf(['NOT_FOUND', 'FULL', 'UNAVAILABLE']) }),
+  PEER_JOINED: peerInfo,
+  PEER_LEFT: peerInfo,
+  SIGNAL_OFFER: sessionDescription,
+  SIGNAL_ANSWER: sessionDescription,
+  SIGNAL_ICE: shape({
+    candidate: optional(isString),
+    sdpMid: optional(nullable(isString)),
+    sdpMLineIndex: optional(nullable(isNumber)),
+  }),
+};
+
+// The message if it is one this build understands, otherwise null
+export const validateMessage = (value: unknown): NetworkMessage | null => {
+  if (!isObject(value) || typeof value.type !== 'string') return null;
+  if (!Object.prototype.hasOwnProperty.call(PAYLOAD_CHECKS, value.type)) return null;
+  if (!optional(isRole)(value.role) || !optional(isString)(value.from) || !optional(isString)(value.to)) return null;
+  if (!PAYLOAD_CHECKS[value.type as MessageType](value.payload)) return null;
+  return value as unknown as NetworkMessage;
+};
+
+// ---------------------------------------------------------
+// WIRE FORMAT
+// ---------------------------------------------------------
+// Messages with a binary payload (SNAPSHOT) go out as the raw bytes, everything
+// else as JSON text. A binary frame on the way in is always a snapshot.
+
+export type WireData = string | ArrayBuffer;
+
+export const toWire = (msg: NetworkMessage): WireData =>
+  msg.payload instanceof ArrayBuffer ? msg.payload : JSON.stringify(msg);
+
+// Null for anything that isn't JSON or fails validation
+export const fromWire = (data: WireData): NetworkMessage | null => {
+  if (data instanceof ArrayBuffer) return { type: 'SNAPSHOT', payload: data };
+  try {
+    return validateMessage(JSON.parse(data));
+  } catch (e) {
+    return null;
+  }
+};
+
+export const wireSize = (data: WireData): number =>
+  typeof data === 'string' ? data.length : data.byteLength;
@@ -0,0 +1,39 @@
+import { GameState } from '../types';
+
+// ---------------------------------------------------------
+// RACES
+// ---------------------------------------------------------
+// Several runners take on the same level and the same trapper, each in their
+// own run (a lane, see GameStart). Nobody collides with anybody: the race is
+// decided by who gets out first. Lanes the viewer hasn't heard from yet are
+// null.
+
+export interface Standing {
+  lane: number;
+  status: GameState['gameStatus'];
+  time: number; // s: the finishing time, or how long they lasted
+  x: number; // How far they got
+}
+
+const isOver = (state: GameState) => state.gameStatus === 'WON' || state.gameStatus === 'LOST';
+
+// Escaped first (fastest wins), then those still running (furthest ahead),
+// then the eliminated (longest lasting)
+const RANK: Record<GameState['gameStatus'], number> = { WON: 0, PLAYING: 1, IDLE: 1, LOST: 2 };
+
+export const raceStandings = (lanes: (GameState | null)[]): Standing[] =>
+  lanes
+    .flatMap((state, lane) =>
+      state ? [{ lane, status: state.gameStatus, time: state.timeElapsed, x: state.player.x }] : []
+    )
+    .sort((a, b) => {
+      if (RANK[a.status] !== RANK[b.status]) return RANK[a.status] - RANK[b.status];
+      if (a.status === 'WON') return a.time - b.time;
+      if (a.status === 'LOST') return b.time - a.time;
+      return b.x - a.x;
+    });
+
+export const isRaceOver = (lanes: (GameState | null)[]): boolean =>
+  lanes.length > 0 && lanes.every(state => state !== null && isOver(state));
+
+export const laneName = (lane: number) => `Runner ${lane + 1}`;
@@ -0,0 +1,13 @@
+// Mulberry32: a tiny 32-bit PRNG. The whole generator state is a single integer,
+// so it can live inside GameState and travel over the network with it.
+export const nextRandom = (seed: number): [number, number] => {
+  const nextSeed = (seed + 0x6D2B79F5) | 0;
+  let t = nextSeed;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  const value = ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  return [value, nextSeed];
+};
+
+// Only used to pick a seed when a run starts. Everything after that is deterministic.
+export const randomSeed = (): number => (Math.random() * 0x100000000) >>> 0;
@@ -0,0 +1,88 @@
+import { GameState, RoundResult, Series } from '../types';
+
+// ---------------------------------------------------------
+// SERIES
+// ---------------------------------------------------------
+// Two players, N rounds, roles swapped after every one. A round goes to the
+// runner if they escape and to the trapper if they don't, and scores more the
+// more convincing it was: a quick escape on few revives, or a quick
+// elimination. Whoever wins more than half the rounds takes the series, so it
+// ends early once the trailing player can't catch up. Points decide nothing
+// but bragging rights.
+
+// Round counts to pick from in the lobby; 1 is a plain single run
+export const SERIES_LENGTHS = [1, 3, 5];
+
+const ROUND_POINTS = 1000;
+const POINTS_PER_SECOND = 10;
+// Only escapes pay for revives: an eliminated runner used them all anyway
+const POINTS_PER_REVIVE = 150;
+const MIN_POINTS = 100;
+
+export interface SeriesScore {
+  player: string;
+  wins: number;
+  points: number;
+}
+
+export const createSeries = (rounds: number, players: string[]): Series => ({
+  id: Math.random().toString(36).slice(2, 10),
+  rounds,
+  players,
+  results: [],
+});
+
+// The round being played, or up next once the last one is in
+export const currentRound = (series: Series): number => series.results.length + 1;
+
+// The players take turns, players[0] first
+export const runnerOf = (series: Series, round: number): string => series.players[(round - 1) % 2];
+
+export const trapperOf = (series: Series, round: number): string => series.players[round % 2];
+
+export const roundWinner = (series: Series, result: RoundResult): string =>
+  result.status === 'WON' ? runnerOf(series, result.round) : trapperOf(series, result.round);
+
+export const roundPoints = (result: RoundResult): number => {
+  const penalty = result.time * POINTS_PER_SECOND + (result.status === 'WON' ? result.revivesUsed * POINTS_PER_REVIVE : 0);
+  return Math.max(MIN_POINTS, Math.round(ROUND_POINTS - penalty));
+};
+
+export const seriesScores = (series: Series): SeriesScore[] =>
+  series.players.map(player => {
+    const won = series.results.filter(result => roundWinner(series, result) === player);
+    return { player, wins: won.length, points: won.reduce((sum, result) => sum + roundPoints(result), 0) };
+  });
+
+export const isSeriesOver = (series: Series): boolean =>
+  series.results.length >= series.rounds || seriesScores(series).some(score => score.wins > series.rounds / 2);
+
+// Null while the series is still going
+export const seriesWinner = (series: Series): string | null => {
+  if (!isSeriesOver(series)) return null;
+  const [a, b] = seriesScores(series);
+  if (a.wins !== b.wins) return a.wins > b.wins ? a.player : b.player;
+  return a.points >= b.points ? a.player : b.player;
+};
+
+// How the runner's finished run went, for the current round
+export const roundResultOf = (series: Series, state: GameState, revivesUsed: number): RoundResult => ({
+  round: currentRound(series),
+  status: state.gameStatus === 'WON' ? 'WON' : 'LOST',
+  time: state.timeElapsed,
+  revivesUsed,
+});
+
+export const recordRound = (series: Series, result: RoundResult): Series =>
+  result.round === currentRound(series) ? { ...series, results: [...series.results, result] } : series;
+
+// A tally from the other end. Each round's runner has the last word on it, so
+// one that knows more rounds (or starts a new series) wins.
+export const mergeSeries = (own: Series | null, incoming: Series): Series =>
+  !own || own.id !== incoming.id || incoming.results.length >= own.results.length ? incoming : own;
+
+// Scoreboard name of a player: "you" and "opponent" to the players, by seat to spectators
+export const playerName = (series: Series, player: string, ownId?: string): string => {
+  if (ownId && series.players.includes(ownId)) return player === ownId ? 'You' : 'Opponent';
+  return `Player ${series.players.indexOf(player) + 1}`;
+};
@@ -0,0 +1,171 @@
+import { NetworkMessage } from "../types";
+import { WireData, fromWire } from "./protocol";
+
+// ---------------------------------------------------------
+// SIGNALING TRANSPORTS
+// ---------------------------------------------------------
+// How the two UDPNetwork peers swap offers, answers and ICE candidates before
+// the data channels exist. Either through the room server, or by hand: the
+// players copy a blob (or scan its QR code) from one screen to the other.
+
+export interface SignalingTransport {
+  // False when candidates can't be sent one by one: the description then goes
+  // out once ICE gathering is complete, with every candidate inside it
+  readonly trickleIce: boolean;
+  open: () => Promise<void>;
+  send: (msg: NetworkMessage) => void;
+  onMessage: (callback: (msg: NetworkMessage) => void) => void;
+  close: () => void;
+}
+
+export const SIGNALING_PORT = 8080;
+
+// The room server also relays game traffic when the peers can't reach each
+// other directly (see RelayNetwork), so this socket carries binary frames too
+export class WebSocketSignaling implements SignalingTransport {
+  readonly trickleIce = true;
+  private ws: WebSocket | null = null;
+  private listeners = new Set<(msg: NetworkMessage) => void>();
+
+  constructor(readonly address: string, private onMalformed: (data: WireData) => void = () => {}) {}
+
+  open(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      console.log(`[SIGNAL] Connecting to Signaling Server at ws://${this.address}:${SIGNALING_PORT}`);
+      this.ws = new WebSocket(`ws://${this.address}:${SIGNALING_PORT}`);
+      this.ws.binaryType = 'arraybuffer';
+
+      this.ws.onopen = () => {
+        console.log("[SIGNAL] Connected to Signaling.");
+        resolve();
+      };
+
+      this.ws.onerror = (err) => {
+        console.error("[SIGNAL] Signaling Error", err);
+        reject(err);
+      };
+
+      this.ws.onmessage = async (event) => {
+        let data = event.data;
+        if (data instanceof Blob) data = await data.text();
+        const msg = fromWire(data);
+        if (msg) this.listeners.forEach(listener => listener(msg));
+        else this.onMalformed(data);
+      };
+    });
+  }
+
+  send(msg: NetworkMessage) {
+    this.sendRaw(JSON.stringify(msg));
+  }
+
+  // Already encoded for the wire; returns false if the socket isn't open
+  sendRaw(data: string | ArrayBuffer): boolean {
+    if (this.ws?.readyState !== WebSocket.OPEN) return false;
+    // send() is overloaded per payload type, so narrow before calling it
+    if (typeof data === 'string') this.ws.send(data);
+    else this.ws.send(data);
+    return true;
+  }
+
+  // Returns a function that removes the listener again
+  onMessage(callback: (msg: NetworkMessage) => void) {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  isOpen(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  close() {
+    this.ws?.close();
+  }
+}
+
+// ----- Manual (copy-paste / QR) -----
+
+// Bump when the blob layout changes so old blobs fail loudly instead of oddly
+const BLOB_PREFIX = 'CPV1.';
+
+type SignalKind = 'SIGNAL_OFFER' | 'SIGNAL_ANSWER';
+
+interface SignalBlob {
+  k: 'o' | 'a';
+  s: string; // SDP, candidates included
+}
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+// SDP is repetitive enough that deflate wins back the base64 overhead
+const pipeThrough = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+  const piped = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(piped).arrayBuffer());
+};
+
+export const encodeSignalBlob = async (kind: SignalKind, description: RTCSessionDescriptionInit): Promise<string> => {
+  const blob: SignalBlob = { k: kind === 'SIGNAL_OFFER' ? 'o' : 'a', s: description.sdp ?? '' };
+  const json = new TextEncoder().encode(JSON.stringify(blob));
+  return BLOB_PREFIX + toBase64Url(await pipeThrough(json, new CompressionStream('deflate-raw')));
+};
+
+// Returns null for anything that isn't a blob from this game
+export const decodeSignalBlob = async (text: string): Promise<NetworkMessage | null> => {
+  const trimmed = text.replace(/\s+/g, '');
+  if (!trimmed.startsWith(BLOB_PREFIX)) return null;
+  try {
+    const json = await pipeThrough(fromBase64Url(trimmed.slice(BLOB_PREFIX.length)), new DecompressionStream('deflate-raw'));
+    const blob = JSON.parse(new TextDecoder().decode(json)) as SignalBlob;
+    if ((blob.k !== 'o' && blob.k !== 'a') || typeof blob.s !== 'string') return null;
+    const type = blob.k === 'o' ? 'offer' : 'answer';
+    return { type: blob.k === 'o' ? 'SIGNAL_OFFER' : 'SIGNAL_ANSWER', payload: { type, sdp: blob.s } };
+  } catch (e) {
+    return null;
+  }
+};
+
+// No server at all: the offer and answer travel as blobs the UI shows and
+// the players carry over themselves. Candidates can't trickle this way.
+export class ManualSignaling implements SignalingTransport {
+  readonly trickleIce = false;
+  private callback: ((msg: NetworkMessage) => void | Promise<void>) | null = null;
+  private blobListener: ((blob: string) => void) | null = null;
+
+  async open() {}
+
+  send(msg: NetworkMessage) {
+    if (msg.type !== 'SIGNAL_OFFER' && msg.type !== 'SIGNAL_ANSWER') return;
+    encodeSignalBlob(msg.type, msg.payload).then(blob => this.blobListener?.(blob));
+  }
+
+  onMessage(callback: (msg: NetworkMessage) => void | Promise<void>) {
+    this.callback = callback;
+  }
+
+  // Our offer/answer, ready to be shown to the other player
+  onBlob(listener: (blob: string) => void) {
+    this.blobListener = listener;
+  }
+
+  // Feed in the blob the other player gave us. Resolves to what it was, or
+  // null if it wasn't a blob at all; rejects if the link can't take it.
+  async accept(text: string): Promise<SignalKind | null> {
+    const msg = await decodeSignalBlob(text);
+    if (!msg) return null;
+    await this.callback?.(msg);
+    return msg.type as SignalKind;
+  }
+
+  close() {}
+}
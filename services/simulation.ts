@@ -0,0 +1,245 @@
+import { GameState, LevelData, PlayerState, RunnerInput, TrapAction, TrapType, GRAVITY, JUMP_FORCE, MOVE_SPEED, MAX_FALL_SPEED, LEVEL_LENGTH, RESPAWN_INVULNERABILITY_MS, SIM_TICK_MS, TRAP_ENERGY_START, WIND_FORCE } from '../types';
+import { DASH_SPEED, INITIAL_ABILITIES, collectPickups, isDashing, updateAbilities } from './abilities';
+import { playerBox, sweepX, sweepY } from './collision';
+import { SPAWN_POINT, respawnPoint, touchedCheckpoint } from './checkpoints';
+import { advanceHazards, touchesHazard } from './hazards';
+import { armTrap, armTrapOnRunner, chargeTrap, hasEffect, isTrapTriggered, placeTrap, tickArmingTraps, tickEffects, tickTrapper, validateTrap } from './traps';
+import { PLATFORM_DEFAULTS, advancePlatforms, blocksSides, platformKind, triggerCrumble } from './platforms';
+
+// ---------------------------------------------------------
+// DETERMINISTIC SIMULATION CORE
+// ---------------------------------------------------------
+// Everything in here is a pure function of (state, inputs, trapEvents).
+// No clocks, no Math.random(), no React: the same inputs always produce
+// the same run, on any machine.
+
+export const INITIAL_GAME_STATE: GameState = {
+  isPlaying: false,
+  gameStatus: 'IDLE',
+  level: [],
+  hazards: [],
+  checkpoints: [],
+  activeCheckpointId: null,
+  pickups: [],
+  placedTraps: [],
+  armingTraps: [],
+  trapper: {
+    energy: TRAP_ENERGY_START,
+    cooldowns: {},
+  },
+  events: [],
+  player: {
+    x: SPAWN_POINT.x,
+    y: SPAWN_POINT.y,
+    vx: 0,
+    vy: 0,
+    isGrounded: false,
+    groundId: null,
+    isDead: false,
+    facing: 1,
+    abilities: INITIAL_ABILITIES,
+    effects: {},
+    windDirection: 0,
+    invulnerableTimer: 0,
+  },
+  revives: 3,
+  timeElapsed: 0,
+  levelLength: LEVEL_LENGTH,
+  tick: 0,
+  rngState: 0,
+};
+
+export const NO_INPUT: RunnerInput = { left: false, right: false, jump: false, dash: false, shield: false };
+
+export const createGameState = (levelData: LevelData, seed: number): GameState => ({
+  ...INITIAL_GAME_STATE,
+  isPlaying: true,
+  gameStatus: 'PLAYING',
+  level: levelData.platforms,
+  hazards: levelData.hazards,
+  checkpoints: levelData.checkpoints,
+  pickups: levelData.pickups,
+  levelLength: levelData.length ?? LEVEL_LENGTH,
+  rngState: seed,
+});
+
+// Advance the simulation by exactly one tick (SIM_TICK_MS)
+export const step = (state: GameState, input: RunnerInput, trapEvents: TrapAction[]): GameState => {
+  if (state.gameStatus !== 'PLAYING') return state;
+
+  const fresh: GameState = { ...state, events: [], trapper: tickTrapper(state.trapper, SIM_TICK_MS) };
+  const trapped = trapEvents.reduce(receiveTrap, fresh);
+  const moved = integratePlayer(movePlatforms(trapped), input);
+  const detonated = tickArmingTraps(moved, SIM_TICK_MS);
+  return resolveOutcome(collectPickups(triggerPlacedTraps(detonated)));
+};
+
+// Check the request against the trapper's budget and charge for it.
+// Unpositioned traps start arming on the runner right away; positioned ones
+// wait at their spot for the runner to come by.
+const receiveTrap = (state: GameState, action: TrapAction): GameState => {
+  const reason = validateTrap(state, action);
+  if (reason) {
+    const rejection = { kind: 'TRAP_REJECTED' as const, trapId: action.id, trapType: action.type, reason };
+    return { ...state, events: [...state.events, rejection] };
+  }
+
+  const charged = { ...state, trapper: chargeTrap(state.trapper, action.type) };
+  if (!action.position) return armTrapOnRunner(charged, action.id, action.type);
+
+  const placed = placeTrap(action, state.level);
+  return placed ? { ...charged, placedTraps: [...charged.placedTraps, placed] } : charged;
+};
+
+const triggerPlacedTraps = (state: GameState): GameState => {
+  const { player } = state;
+  if (player.invulnerableTimer > 0) return state;
+
+  const fired = state.placedTraps.filter(t => isTrapTriggered(t, player.x, player.y));
+  if (fired.length === 0) return state;
+
+  const placedTraps = state.placedTraps.filter(t => !fired.includes(t));
+  return fired.reduce(
+    (s, trap) => armTrap(s, { id: trap.id, type: trap.type, x: trap.x, y: trap.y, platformId: trap.platformId }),
+    { ...state, placedTraps }
+  );
+};
+
+// Advance moving/crumbling platforms and crushers, and carry the runner along with whatever they stand on
+const movePlatforms = (state: GameState): GameState => {
+  const level = advancePlatforms(state.level, state.tick + 1);
+  const hazards = advanceHazards(state.hazards, state.tick + 1);
+  const { groundId } = state.player;
+  if (!groundId) return { ...state, level, hazards };
+
+  const before = state.level.find(p => p.id === groundId);
+  const after = level.find(p => p.id === groundId);
+  if (!before || !after) return { ...state, level, hazards };
+
+  const player = {
+    ...state.player,
+    x: state.player.x + (after.x - before.x),
+    y: state.player.y + (after.y - before.y),
+  };
+  return { ...state, level, hazards, player };
+};
+
+const integratePlayer = (state: GameState, input: RunnerInput): GameState => {
+  const player: PlayerState = tickEffects(state.player, SIM_TICK_MS);
+  let { x, y, vx, vy, isGrounded } = player;
+  const frozen = hasEffect(player, TrapType.FREEZE);
+  const gravityDir = hasEffect(player, TrapType.GRAVITY_FLIP) ? -1 : 1;
+
+  // Controls
+  let moveDir = 0;
+  if (!frozen) {
+    if (input.left) moveDir -= 1;
+    if (input.right) moveDir += 1;
+  }
+  if (hasEffect(player, TrapType.REVERSE)) moveDir *= -1;
+  if (moveDir !== 0) player.facing = moveDir;
+
+  player.abilities = updateAbilities(player, input, SIM_TICK_MS, !frozen);
+  const dashing = isDashing(player);
+
+  if (player.invulnerableTimer > 0) {
+    player.invulnerableTimer = Math.max(0, player.invulnerableTimer - SIM_TICK_MS);
+  }
+
+  // Ice lets the runner's speed drift towards the input instead of snapping to it.
+  // Wind shifts the speed it settles at. Frozen runners don't move sideways at all.
+  const ground = player.groundId ? state.level.find(p => p.id === player.groundId) : undefined;
+  const friction = ground && platformKind(ground) === 'ICE'
+    ? ground.friction ?? PLATFORM_DEFAULTS.friction
+    : 1;
+  const wind = hasEffect(player, TrapType.WIND) ? player.windDirection * WIND_FORCE : 0;
+  vx = frozen ? 0 : vx + (moveDir * MOVE_SPEED + wind - vx) * friction;
+  if (dashing) vx = player.facing * DASH_SPEED;
+
+  if (input.jump && isGrounded && !frozen) {
+    vy = JUMP_FORCE * gravityDir;
+    isGrounded = false;
+  }
+
+  // Physics. A dash is a straight horizontal burst that ignores gravity.
+  if (dashing) {
+    vy = 0;
+  } else {
+    vy += GRAVITY * gravityDir;
+    vy = gravityDir > 0 ? Math.min(vy, MAX_FALL_SPEED) : Math.max(vy, -MAX_FALL_SPEED);
+  }
+
+  // Collision: horizontal first (walls), then vertical (floors and ceilings)
+  const sideSolids = state.level.filter(blocksSides);
+  const horizontal = sweepX(playerBox(x, y), vx, sideSolids);
+  const nextX = horizontal.position;
+  if (horizontal.hit) vx = 0;
+
+  const vertical = sweepY(playerBox(nextX, y), vy, vy > 0 ? state.level : sideSolids);
+  const nextY = vertical.position;
+  let level = state.level;
+  let groundId: string | null = null;
+  isGrounded = false;
+  // "Floor" is whichever side gravity currently pulls towards
+  if (vertical.hit && vy * gravityDir > 0) {
+    const floor = vertical.hit;
+    if (platformKind(floor) === 'BOUNCY') {
+      // Always bounce at least as high as a normal jump
+      const landingSpeed = Math.abs(vy) * (floor.restitution ?? PLATFORM_DEFAULTS.restitution);
+      vy = -gravityDir * Math.max(landingSpeed, -JUMP_FORCE);
+    } else {
+      vy = 0;
+      isGrounded = true;
+      groundId = floor.id;
+      level = triggerCrumble(level, floor.id);
+    }
+  } else if (vertical.hit) {
+    vy = 0;
+  }
+
+  player.x = nextX;
+  player.y = nextY;
+  player.vx = vx;
+  player.vy = vy;
+  player.isGrounded = isGrounded;
+  player.groundId = groundId;
+
+  const tick = state.tick + 1;
+  return { ...state, level, player, tick, timeElapsed: (tick * SIM_TICK_MS) / 1000 };
+};
+
+// Checkpoints, Win/Loss/Revive
+const resolveOutcome = (state: GameState): GameState => {
+  const player = { ...state.player };
+  const box = playerBox(player.x, player.y);
+
+  if (player.x >= state.levelLength) {
+    return { ...state, player, gameStatus: 'WON', isPlaying: false };
+  }
+
+  // Falling out of the world (either way, with gravity flipped) or touching a hazard both cost a revive
+  if (player.y > 800 || player.y < -400 || touchesHazard(box, state.hazards)) {
+    if (state.revives > 0) {
+      const checkpoint = state.checkpoints.find(cp => cp.id === state.activeCheckpointId);
+      const spawn = respawnPoint(checkpoint);
+
+      player.x = spawn.x;
+      player.y = spawn.y;
+      player.vx = 0;
+      player.vy = 0;
+      player.groundId = null;
+      player.effects = {};
+      player.abilities = { ...player.abilities, dashTimer: 0 };
+      player.invulnerableTimer = RESPAWN_INVULNERABILITY_MS;
+      return { ...state, player, revives: state.revives - 1 };
+    }
+    return { ...state, player, gameStatus: 'LOST', isPlaying: false };
+  }
+
+  const touched = touchedCheckpoint(box, state.checkpoints);
+  if (touched && touched.id !== state.activeCheckpointId) {
+    return { ...state, activeCheckpointId: touched.id };
+  }
+
+  return state;
+};
@@ -0,0 +1,443 @@
+import { ArmingTrap, GameState, PlacedTrap, TrapTimers, TrapType, SIM_TICK_MS } from '../types';
+import { TRAP_TYPES } from './traps';
+
+// ---------------------------------------------------------
+// BINARY SNAPSHOT CODEC
+// ---------------------------------------------------------
+// The per-tick part of GameState (runner, trapper budget, live traps) packed
+// into a few dozen bytes. The level itself travels separately as LEVEL_UPDATE
+// events, and movers are rebuilt from the tick on the receiving side.
+//
+// Layout, little endian:
+//   u8   SNAPSHOT_VERSION
+//   u8   flags           bit 0: delta
+//   u32  seq
+//   u32  baseSeq         snapshot the delta is relative to (0 for keyframes)
+//   u16  levelVersion
+//   u8   lane            whose run this is in a race (see GameStart)
+//   u32  inputSeq        newest runner input applied (match server mode, else 0)
+//   u32  fieldMask       one bit per FIELDS entry that follows
+//   ...  fields
+//   u8   sectionMask     one bit per SECTIONS entry that follows
+//   ...  sections
+// A delta only carries the fields and sections that differ from its baseline.
+
+export const SNAPSHOT_VERSION = 3;
+
+// What a snapshot carries: everything but the level and the runner-only bits
+export type SnapshotState = Omit<GameState, 'level' | 'hazards' | 'checkpoints' | 'pickups' | 'events' | 'levelLength'>;
+
+// The quantized form of a snapshot. Kept by both ends as the baseline for deltas.
+export interface SnapshotFrame {
+  values: number[]; // One integer per FIELDS entry
+  sections: Uint8Array[]; // Encoded bytes per SECTIONS entry
+}
+
+export interface DecodedSnapshot {
+  seq: number;
+  baseSeq: number;
+  levelVersion: number;
+  lane: number;
+  inputSeq: number;
+  frame: SnapshotFrame;
+}
+
+const FLAG_DELTA = 1;
+const LANE_OFFSET = 12; // Bytes of header before the lane
+const POSITION_SCALE = 8; // 1/8 px
+const VELOCITY_SCALE = 100;
+const ENERGY_SCALE = 10;
+
+// ----- Byte level -----
+
+type Scalar = 'u8' | 'i8' | 'u16' | 'i16' | 'u32' | 'i32';
+
+const SCALAR_RANGE: Record<Scalar, [number, number, number]> = {
+  // [bytes, min, max]
+  u8: [1, 0, 0xff],
+  i8: [1, -0x80, 0x7f],
+  u16: [2, 0, 0xffff],
+  i16: [2, -0x8000, 0x7fff],
+  u32: [4, 0, 0xffffffff],
+  i32: [4, -0x80000000, 0x7fffffff],
+};
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+class ByteWriter {
+  private bytes = new Uint8Array(64);
+  private view = new DataView(this.bytes.buffer);
+  private length = 0;
+
+  private reserve(n: number) {
+    if (this.length + n <= this.bytes.length) return;
+    const grown = new Uint8Array(Math.max(this.bytes.length * 2, this.length + n));
+    grown.set(this.bytes);
+    this.bytes = grown;
+    this.view = new DataView(grown.buffer);
+  }
+
+  scalar(type: Scalar, value: number) {
+    const [size, min, max] = SCALAR_RANGE[type];
+    const v = Math.min(max, Math.max(min, Math.round(value)));
+    this.reserve(size);
+    const at = this.length;
+    switch (type) {
+      case 'u8': this.view.setUint8(at, v); break;
+      case 'i8': this.view.setInt8(at, v); break;
+      case 'u16': this.view.setUint16(at, v, true); break;
+      case 'i16': this.view.setInt16(at, v, true); break;
+      case 'u32': this.view.setUint32(at, v, true); break;
+      case 'i32': this.view.setInt32(at, v, true); break;
+    }
+    this.length += size;
+  }
+
+  raw(data: Uint8Array) {
+    this.reserve(data.length);
+    this.bytes.set(data, this.length);
+    this.length += data.length;
+  }
+
+  // Length-prefixed UTF-8, 255 = null
+  string(s: string | null) {
+    if (s === null) {
+      this.scalar('u8', 0xff);
+      return;
+    }
+    const encoded = textEncoder.encode(s).slice(0, 0xfe);
+    this.scalar('u8', encoded.length);
+    this.raw(encoded);
+  }
+
+  finish(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+// Reads past the end throw a RangeError, which decodeSnapshot turns into a drop
+class ByteReader {
+  private view: DataView;
+  offset = 0;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  scalar(type: Scalar): number {
+    const at = this.offset;
+    this.offset += SCALAR_RANGE[type][0];
+    switch (type) {
+      case 'u8': return this.view.getUint8(at);
+      case 'i8': return this.view.getInt8(at);
+      case 'u16': return this.view.getUint16(at, true);
+      case 'i16': return this.view.getInt16(at, true);
+      case 'u32': return this.view.getUint32(at, true);
+      case 'i32': return this.view.getInt32(at, true);
+    }
+  }
+
+  raw(n: number): Uint8Array {
+    if (this.offset + n > this.bytes.length) throw new RangeError('Snapshot truncated');
+    const out = this.bytes.slice(this.offset, this.offset + n);
+    this.offset += n;
+    return out;
+  }
+
+  string(): string | null {
+    const length = this.scalar('u8');
+    return length === 0xff ? null : textDecoder.decode(this.raw(length));
+  }
+
+  // Everything read since `start`
+  since(start: number): Uint8Array {
+    return this.bytes.slice(start, this.offset);
+  }
+}
+
+// ----- Fields -----
+// Fixed-size scalars, compared one by one against the baseline
+
+const STATUSES: GameState['gameStatus'][] = ['IDLE', 'PLAYING', 'WON', 'LOST'];
+
+const FLAG_PLAYING = 1;
+const FLAG_GROUNDED = 2;
+const FLAG_DEAD = 4;
+const FLAG_SHIELD = 8;
+
+interface Field {
+  type: Scalar;
+  get: (s: SnapshotState) => number;
+}
+
+const FIELDS: Field[] = [
+  { type: 'u32', get: s => s.tick },
+  // Seeds start out unsigned, nextRandom's states are signed: same generator either way
+  { type: 'u32', get: s => s.rngState >>> 0 },
+  { type: 'u8', get: s => STATUSES.indexOf(s.gameStatus) },
+  {
+    type: 'u8',
+    get: s =>
+      (s.isPlaying ? FLAG_PLAYING : 0) |
+      (s.player.isGrounded ? FLAG_GROUNDED : 0) |
+      (s.player.isDead ? FLAG_DEAD : 0) |
+      (s.player.abilities.shieldActive ? FLAG_SHIELD : 0),
+  },
+  { type: 'u8', get: s => s.revives },
+  { type: 'i32', get: s => s.player.x * POSITION_SCALE },
+  { type: 'i16', get: s => s.player.y * POSITION_SCALE },
+  { type: 'i16', get: s => s.player.vx * VELOCITY_SCALE },
+  { type: 'i16', get: s => s.player.vy * VELOCITY_SCALE },
+  { type: 'i8', get: s => s.player.facing },
+  { type: 'i8', get: s => s.player.windDirection },
+  { type: 'u16', get: s => Math.ceil(s.player.invulnerableTimer) },
+  { type: 'u16', get: s => Math.ceil(s.player.abilities.dashTimer) },
+  { type: 'u16', get: s => Math.ceil(s.player.abilities.dashCooldown) },
+  { type: 'u16', get: s => Math.ceil(s.player.abilities.shieldCooldown) },
+  { type: 'u16', get: s => s.trapper.energy * ENERGY_SCALE },
+];
+
+// Quantize like the writer does so unchanged values compare equal
+const quantize = (field: Field, s: SnapshotState): number => {
+  const [, min, max] = SCALAR_RANGE[field.type];
+  return Math.min(max, Math.max(min, Math.round(field.get(s))));
+};
+
+// ----- Sections -----
+// Variable-length parts, compared byte for byte against the baseline
+
+const writeTimers = (w: ByteWriter, timers: TrapTimers) => {
+  const active = TRAP_TYPES.filter(t => (timers[t] ?? 0) > 0);
+  w.scalar('u8', active.length);
+  for (const type of active) {
+    w.scalar('u8', TRAP_TYPES.indexOf(type));
+    w.scalar('u16', Math.ceil(timers[type]!));
+  }
+};
+
+const readTimers = (r: ByteReader): TrapTimers => {
+  const timers: TrapTimers = {};
+  const count = r.scalar('u8');
+  for (let i = 0; i < count; i++) {
+    const type = readTrapType(r);
+    timers[type] = r.scalar('u16');
+  }
+  return timers;
+};
+
+const readTrapType = (r: ByteReader): TrapType => {
+  const type = TRAP_TYPES[r.scalar('u8')];
+  if (!type) throw new RangeError('Unknown trap type in snapshot');
+  return type;
+};
+
+const writeTraps = (w: ByteWriter, traps: (PlacedTrap | ArmingTrap)[], withRemaining: boolean) => {
+  w.scalar('u8', traps.length);
+  for (const trap of traps) {
+    w.string(trap.id);
+    w.scalar('u8', TRAP_TYPES.indexOf(trap.type));
+    w.scalar('i32', trap.x * POSITION_SCALE);
+    w.scalar('i16', trap.y * POSITION_SCALE);
+    w.string(trap.platformId);
+    if (withRemaining) w.scalar('u16', Math.ceil((trap as ArmingTrap).remaining));
+  }
+};
+
+const readPlacedTrap = (r: ByteReader): PlacedTrap => ({
+  id: r.string() ?? '',
+  type: readTrapType(r),
+  x: r.scalar('i32') / POSITION_SCALE,
+  y: r.scalar('i16') / POSITION_SCALE,
+  platformId: r.string(),
+});
+
+const readList = <T>(r: ByteReader, readItem: (r: ByteReader) => T): T[] =>
+  Array.from({ length: r.scalar('u8') }, () => readItem(r));
+
+interface Section {
+  write: (w: ByteWriter, s: SnapshotState) => void;
+  read: (r: ByteReader, into: SnapshotState) => void;
+}
+
+const SECTIONS: Section[] = [
+  {
+    write: (w, s) => w.string(s.activeCheckpointId),
+    read: (r, s) => { s.activeCheckpointId = r.string(); },
+  },
+  {
+    write: (w, s) => w.string(s.player.groundId),
+    read: (r, s) => { s.player.groundId = r.string(); },
+  },
+  {
+    write: (w, s) => writeTimers(w, s.player.effects),
+    read: (r, s) => { s.player.effects = readTimers(r); },
+  },
+  {
+    write: (w, s) => writeTimers(w, s.trapper.cooldowns),
+    read: (r, s) => { s.trapper.cooldowns = readTimers(r); },
+  },
+  {
+    write: (w, s) => writeTraps(w, s.placedTraps, false),
+    read: (r, s) => { s.placedTraps = readList(r, readPlacedTrap); },
+  },
+  {
+    write: (w, s) => writeTraps(w, s.armingTraps, true),
+    read: (r, s) => {
+      s.armingTraps = readList(r, rr => {
+        const trap = readPlacedTrap(rr);
+        return { ...trap, remaining: rr.scalar('u16') };
+      });
+    },
+  },
+];
+
+const sameBytes = (a: Uint8Array, b: Uint8Array): boolean =>
+  a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+// ----- Public API -----
+
+export const captureFrame = (state: SnapshotState): SnapshotFrame => ({
+  values: FIELDS.map(f => quantize(f, state)),
+  sections: SECTIONS.map(section => {
+    const w = new ByteWriter();
+    section.write(w, state);
+    return w.finish();
+  }),
+});
+
+export const encodeSnapshot = (
+  frame: SnapshotFrame,
+  header: { seq: number; levelVersion: number; lane?: number; inputSeq?: number },
+  baseline?: { seq: number; frame: SnapshotFrame }
+): ArrayBuffer => {
+  const w = new ByteWriter();
+  w.scalar('u8', SNAPSHOT_VERSION);
+  w.scalar('u8', baseline ? FLAG_DELTA : 0);
+  w.scalar('u32', header.seq);
+  w.scalar('u32', baseline?.seq ?? 0);
+  w.scalar('u16', header.levelVersion);
+  w.scalar('u8', header.lane ?? 0);
+  w.scalar('u32', header.inputSeq ?? 0);
+
+  const changedFields = FIELDS.map((_, i) => !baseline || frame.values[i] !== baseline.frame.values[i]);
+  w.scalar('u32', changedFields.reduce((mask, changed, i) => (changed ? mask | (1 << i) : mask), 0) >>> 0);
+  FIELDS.forEach((f, i) => changedFields[i] && w.scalar(f.type, frame.values[i]));
+
+  const changedSections = SECTIONS.map((_, i) => !baseline || !sameBytes(frame.sections[i], baseline.frame.sections[i]));
+  w.scalar('u8', changedSections.reduce((mask, changed, i) => (changed ? mask | (1 << i) : mask), 0));
+  SECTIONS.forEach((_, i) => changedSections[i] && w.raw(frame.sections[i]));
+
+  return w.finish().buffer as ArrayBuffer;
+};
+
+// Null if the snapshot is from another protocol version, malformed, or a
+// delta against a baseline we no longer (or never) had
+export const decodeSnapshot = (
+  data: ArrayBuffer,
+  baselineFor: (seq: number) => SnapshotFrame | undefined
+): DecodedSnapshot | null => {
+  try {
+    const r = new ByteReader(new Uint8Array(data));
+    if (r.scalar('u8') !== SNAPSHOT_VERSION) return null;
+    const isDelta = (r.scalar('u8') & FLAG_DELTA) !== 0;
+    const seq = r.scalar('u32');
+    const baseSeq = r.scalar('u32');
+    const levelVersion = r.scalar('u16');
+    const lane = r.scalar('u8');
+    const inputSeq = r.scalar('u32');
+
+    const baseline = isDelta ? baselineFor(baseSeq) : undefined;
+    if (isDelta && !baseline) return null;
+
+    const fieldMask = r.scalar('u32');
+    const values = FIELDS.map((f, i) => {
+      if (fieldMask & (1 << i)) return r.scalar(f.type);
+      if (!baseline) throw new RangeError('Keyframe is missing a field');
+      return baseline.values[i];
+    });
+
+    const sectionMask = r.scalar('u8');
+    const sections = SECTIONS.map((section, i) => {
+      if (!(sectionMask & (1 << i))) {
+        if (!baseline) throw new RangeError('Keyframe is missing a section');
+        return baseline.sections[i];
+      }
+      const start = r.offset;
+      section.read(r, emptySnapshotState());
+      return r.since(start);
+    });
+
+    return { seq, baseSeq, levelVersion, lane, inputSeq, frame: { values, sections } };
+  } catch {
+    return null;
+  }
+};
+
+// Which lane a snapshot is for, without decoding the rest. Null if it isn't
+// a snapshot this build can read.
+export const snapshotLane = (data: ArrayBuffer): number | null => {
+  const bytes = new Uint8Array(data);
+  if (bytes.length <= LANE_OFFSET || bytes[0] !== SNAPSHOT_VERSION) return null;
+  return bytes[LANE_OFFSET];
+};
+
+const emptySnapshotState = (): SnapshotState => ({
+  isPlaying: false,
+  gameStatus: 'IDLE',
+  activeCheckpointId: null,
+  placedTraps: [],
+  armingTraps: [],
+  trapper: { energy: 0, cooldowns: {} },
+  player: {
+    x: 0,
+    y: 0,
+    vx: 0,
+    vy: 0,
+    isGrounded: false,
+    groundId: null,
+    isDead: false,
+    facing: 1,
+    abilities: { dashTimer: 0, dashCooldown: 0, shieldCooldown: 0, shieldActive: false },
+    effects: {},
+    windDirection: 0,
+    invulnerableTimer: 0,
+  },
+  revives: 0,
+  timeElapsed: 0,
+  tick: 0,
+  rngState: 0,
+});
+
+// Unpack a frame back into state. Lossy where the fields were quantized.
+export const frameToState = (frame: SnapshotFrame): SnapshotState => {
+  const [tick, rngState, status, flags, revives, x, y, vx, vy, facing, windDirection,
+    invulnerableTimer, dashTimer, dashCooldown, shieldCooldown, energy] = frame.values;
+
+  const state = emptySnapshotState();
+  SECTIONS.forEach((section, i) => section.read(new ByteReader(frame.sections[i]), state));
+
+  return {
+    ...state,
+    isPlaying: (flags & FLAG_PLAYING) !== 0,
+    gameStatus: STATUSES[status] ?? 'IDLE',
+    revives,
+    tick,
+    timeElapsed: (tick * SIM_TICK_MS) / 1000,
+    rngState,
+    trapper: { ...state.trapper, energy: energy / ENERGY_SCALE },
+    player: {
+      ...state.player,
+      x: x / POSITION_SCALE,
+      y: y / POSITION_SCALE,
+      vx: vx / VELOCITY_SCALE,
+      vy: vy / VELOCITY_SCALE,
+      isGrounded: (flags & FLAG_GROUNDED) !== 0,
+      isDead: (flags & FLAG_DEAD) !== 0,
+      facing: facing < 0 ? -1 : 1,
+      windDirection,
+      invulnerableTimer,
+      abilities: { dashTimer, dashCooldown, shieldCooldown, shieldActive: (flags & FLAG_SHIELD) !== 0 },
+    },
+  };
+};
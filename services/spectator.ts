@@ -0,0 +1,53 @@
+import { GameState, TrapAction, TrapRejection, TrapRejectReason, TrapType } from '../types';
+
+// ---------------------------------------------------------
+// SPECTATOR FEEDS
+// ---------------------------------------------------------
+// What a spectator sees besides the two views: every trap the trapper asked
+// for (and whether the runner refused it), and the run's turning points.
+// Built from overheard messages and successive sampled states, nothing sent
+// just for spectators.
+
+export interface TrapFeedEntry {
+  id: string;
+  type: TrapType;
+  time: number; // s into the run, as far as the spectator has seen it
+  aimed: boolean; // Placed on the map rather than fired at the runner
+  lane: number; // The runner it was meant for, in a race
+  rejected?: TrapRejectReason;
+}
+
+export type TimelineKind = 'REVIVE_USED' | 'REVIVE_GAINED' | 'ELIMINATED' | 'ESCAPED';
+
+export interface TimelineEvent {
+  kind: TimelineKind;
+  time: number; // s into the run
+  revives: number; // Left after the event
+  lane: number;
+}
+
+const MAX_FEED = 12;
+
+export const feedTrap = (feed: TrapFeedEntry[], action: TrapAction, time: number): TrapFeedEntry[] => {
+  // Reliable messages can show up twice after a reconnect
+  if (feed.some(entry => entry.id === action.id)) return feed;
+  const entry: TrapFeedEntry = { id: action.id, type: action.type, time, aimed: !!action.position, lane: action.lane ?? 0 };
+  return [...feed, entry].slice(-MAX_FEED);
+};
+
+export const rejectTrap = (feed: TrapFeedEntry[], rejection: TrapRejection): TrapFeedEntry[] =>
+  feed.map(entry => (entry.id === rejection.trapId ? { ...entry, rejected: rejection.reason } : entry));
+
+// What happened between two sampled states of a lane. Revives only change on
+// a death or a pickup, and the status only once, so comparing samples is enough.
+export const timelineEvents = (prev: GameState, next: GameState, lane = 0): TimelineEvent[] => {
+  const events: TimelineEvent[] = [];
+  const time = next.timeElapsed;
+  const { revives } = next;
+
+  if (revives < prev.revives) events.push({ kind: 'REVIVE_USED', time, revives, lane });
+  if (revives > prev.revives) events.push({ kind: 'REVIVE_GAINED', time, revives, lane });
+  if (prev.gameStatus === 'PLAYING' && next.gameStatus === 'LOST') events.push({ kind: 'ELIMINATED', time, revives, lane });
+  if (prev.gameStatus === 'PLAYING' && next.gameStatus === 'WON') events.push({ kind: 'ESCAPED', time, revives, lane });
+  return events;
+};
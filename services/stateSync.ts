@@ -0,0 +1,303 @@
+import { GameState, LevelData, LevelUpdate, SnapshotAck, LEVEL_LENGTH, SNAPSHOT_RATE } from '../types';
+import { NetworkAdapter } from './p2p';
+import { SnapshotFrame, captureFrame, decodeSnapshot, encodeSnapshot, frameToState } from './snapshot';
+import { advanceHazards } from './hazards';
+import { JitterBuffer, JitterStats } from './jitterBuffer';
+import { isMoving, placePlatforms } from './platforms';
+
+// ---------------------------------------------------------
+// SNAPSHOT SYNC (RUNNER -> TRAPPER)
+// ---------------------------------------------------------
+// The runner sends binary snapshots at a fixed rate, each one a delta against
+// the newest snapshot the trapper has acknowledged. A lost packet just means
+// the next delta is relative to an older baseline. Level changes go out as
+// LEVEL_UPDATE messages and are resent until the trapper acks their version.
+// In match server mode the server is the sender, to both players.
+//
+// In a race every runner sends its own lane (the lane tells the streams apart)
+// to the trapper and to the other runners, who all ack it. Deltas are then
+// against the newest snapshot every one of them has, and a receiver that goes
+// quiet stops holding the others back.
+
+// Sent frames kept around as possible baselines
+const HISTORY_SIZE = 64;
+const LEVEL_RESEND_MS = 500;
+// Whoever decodes without acking (spectators, rival runners) is stuck after
+// one lost packet until the next keyframe; send one this often regardless
+const KEYFRAME_EVERY = SNAPSHOT_RATE;
+// Snapshots without an ack before a receiver no longer counts
+const RECEIVER_TIMEOUT = SNAPSHOT_RATE;
+
+interface ReceiverAcks {
+  seqs: Set<number>; // Acked snapshots still in the history
+  levelVersion: number;
+  at: number; // Our seq when it was heard from
+}
+
+export interface SyncStats {
+  snapshots: number;
+  keyframes: number;
+  snapshotBytes: number;
+  levelUpdates: number;
+  levelBytes: number;
+  // What sending the whole GameState as JSON every frame would have cost
+  jsonBytes: number;
+  elapsedMs: number;
+}
+
+const EMPTY_STATS: SyncStats = {
+  snapshots: 0,
+  keyframes: 0,
+  snapshotBytes: 0,
+  levelUpdates: 0,
+  levelBytes: 0,
+  jsonBytes: 0,
+  elapsedMs: 0,
+};
+
+// Changes whenever the level is altered in a way the trapper can't rebuild from the tick
+const levelKey = (state: GameState): string =>
+  JSON.stringify([
+    state.level.map(p => [p.id, p.kind, isMoving(p) ? p.path : [p.x, p.y], p.crumbleTimer !== undefined]),
+    state.hazards.map(h => h.id),
+    state.checkpoints.map(c => c.id),
+    state.pickups.map(p => p.id),
+  ]);
+
+const toLevelUpdate = (state: GameState, version: number): LevelUpdate => ({
+  version,
+  platforms: state.level,
+  hazards: state.hazards,
+  checkpoints: state.checkpoints,
+  pickups: state.pickups,
+});
+
+// Remember a frame under `seq`, forgetting the oldest once the history is full
+const remember = (frames: Map<number, SnapshotFrame>, seq: number, frame: SnapshotFrame) => {
+  frames.set(seq, frame);
+  if (frames.size > HISTORY_SIZE) frames.delete(frames.keys().next().value!);
+};
+
+export class SnapshotSender {
+  private seq = 0;
+  private frames = new Map<number, SnapshotFrame>();
+  // By receiver ID (see SnapshotAck)
+  private acks = new Map<string, ReceiverAcks>();
+  private hasAcks = false;
+  private levelVersion = 0;
+  private levelKey: string;
+  private nextSnapshotAt = 0;
+  private lastLevelSentAt = -Infinity;
+  private startedAt: number | null = null;
+  private framesSinceSnapshot = 0;
+  private jsonFrameBytes = 0; // Size of the last keyframe's state as JSON
+  private stats: SyncStats = { ...EMPTY_STATS };
+
+  // `initial` is the state the trapper was given in START_GAME (level version 0)
+  constructor(
+    private network: NetworkAdapter,
+    initial: GameState,
+    private lane = 0,
+    private sendRate: number = SNAPSHOT_RATE
+  ) {
+    this.levelKey = levelKey(initial);
+  }
+
+  // Call once per rendered frame; sends when the next snapshot is due.
+  // `inputSeq` is the newest runner input `state` includes (match server only).
+  update(state: GameState, now: number, inputSeq = 0) {
+    this.startedAt ??= now;
+    this.stats.elapsedMs = now - this.startedAt;
+    this.framesSinceSnapshot++;
+    if (now < this.nextSnapshotAt) return;
+
+    const interval = 1000 / this.sendRate;
+    this.nextSnapshotAt = Math.max(this.nextSnapshotAt + interval, now - interval);
+    this.send(state, now, inputSeq);
+  }
+
+  // Send right away, e.g. the final state once the run is over
+  flush(state: GameState, now: number, inputSeq = 0) {
+    this.framesSinceSnapshot++;
+    this.send(state, now, inputSeq);
+  }
+
+  handleAck(ack: SnapshotAck) {
+    // Acks for the other runners in a race
+    if ((ack.lane ?? 0) !== this.lane) return;
+    const key = ack.receiver ?? '';
+    const acks = this.acks.get(key) ?? { seqs: new Set<number>(), levelVersion: 0, at: 0 };
+    for (const seq of acks.seqs) {
+      if (!this.frames.has(seq)) acks.seqs.delete(seq);
+    }
+    if (this.frames.has(ack.seq)) acks.seqs.add(ack.seq);
+    acks.levelVersion = Math.max(acks.levelVersion, ack.levelVersion);
+    acks.at = this.seq;
+    this.acks.set(key, acks);
+    this.hasAcks = true;
+  }
+
+  // Someone new is decoding the stream (a rejoined trapper, a spectator): send
+  // keyframes until the next ack. The sequence carries on, so anyone already
+  // watching keeps decoding.
+  restartDeltas() {
+    this.frames.clear();
+    this.acks.forEach(acks => acks.seqs.clear());
+  }
+
+  getStats(): SyncStats {
+    return { ...this.stats };
+  }
+
+  // True once anyone has acked anything, i.e. someone is on the other end
+  hasPeer(): boolean {
+    return this.hasAcks;
+  }
+
+  // The receivers heard from lately, forgetting the rest
+  private receivers(): ReceiverAcks[] {
+    for (const [key, acks] of this.acks) {
+      if (this.seq - acks.at > RECEIVER_TIMEOUT) this.acks.delete(key);
+    }
+    return [...this.acks.values()];
+  }
+
+  // The newest snapshot every receiver has, if any
+  private baselineSeq(): number | undefined {
+    const receivers = this.receivers();
+    if (receivers.length === 0) return undefined;
+    let best: number | undefined;
+    for (const seq of this.frames.keys()) {
+      if (receivers.every(acks => acks.seqs.has(seq))) best = seq;
+    }
+    return best;
+  }
+
+  private send(state: GameState, now: number, inputSeq: number) {
+    this.syncLevel(state, now);
+
+    const frame = captureFrame(state);
+    const seq = ++this.seq;
+    const baseSeq = seq % KEYFRAME_EVERY === 0 ? undefined : this.baselineSeq();
+    const baseline = baseSeq === undefined ? undefined : { seq: baseSeq, frame: this.frames.get(baseSeq)! };
+    const data = encodeSnapshot(frame, { seq, levelVersion: this.levelVersion, lane: this.lane, inputSeq }, baseline);
+    remember(this.frames, seq, frame);
+    this.network.send({ type: 'SNAPSHOT', payload: data });
+
+    this.stats.snapshots++;
+    if (!baseline) this.stats.keyframes++;
+    this.stats.snapshotBytes += data.byteLength;
+    // Measured on keyframes only; serializing every frame would cost what the format saves
+    if (!baseline) this.jsonFrameBytes = JSON.stringify({ type: 'STATE_UPDATE', payload: state }).length;
+    this.stats.jsonBytes += this.jsonFrameBytes * this.framesSinceSnapshot;
+    this.framesSinceSnapshot = 0;
+  }
+
+  private syncLevel(state: GameState, now: number) {
+    const key = levelKey(state);
+    if (key !== this.levelKey) {
+      this.levelKey = key;
+      this.levelVersion++;
+      this.lastLevelSentAt = -Infinity;
+    }
+    const receivers = this.receivers();
+    const ackedLevelVersion = receivers.length > 0 ? Math.min(...receivers.map(acks => acks.levelVersion)) : 0;
+    if (ackedLevelVersion >= this.levelVersion || now - this.lastLevelSentAt < LEVEL_RESEND_MS) return;
+
+    const update = { ...toLevelUpdate(state, this.levelVersion), lane: this.lane };
+    this.network.send({ type: 'LEVEL_UPDATE', payload: update });
+    this.lastLevelSentAt = now;
+    this.stats.levelUpdates++;
+    this.stats.levelBytes += JSON.stringify(update).length;
+  }
+}
+
+// Decodes and acks snapshots and rebuilds the full states they describe.
+// Shared by the trapper's playout and the runner's prediction. Spectators
+// don't ack: they decode against the players' baselines from the copies they
+// overhear, and catch up at the next keyframe when one goes missing.
+export class SnapshotInbox {
+  private frames = new Map<number, SnapshotFrame>();
+  private latestSeq = 0;
+  private level: LevelUpdate;
+  private levelLength: number;
+  dropped = 0;
+
+  // `receiverId` tells this receiver's acks apart when the stream has several
+  constructor(
+    private network: NetworkAdapter,
+    levelData: LevelData,
+    private sendAcks = true,
+    private lane = 0,
+    private receiverId?: string
+  ) {
+    this.level = { ...levelData, version: 0, lane };
+    this.levelLength = levelData.length ?? LEVEL_LENGTH;
+  }
+
+  handleLevelUpdate(update: LevelUpdate) {
+    if (update.version > this.level.version) this.level = update;
+  }
+
+  // Null if the snapshot couldn't be decoded or is older than one already seen
+  receive(data: ArrayBuffer): { state: GameState; inputSeq: number } | null {
+    const snapshot = decodeSnapshot(data, seq => this.frames.get(seq));
+    if (!snapshot) {
+      this.dropped++;
+      return null;
+    }
+
+    remember(this.frames, snapshot.seq, snapshot.frame);
+    if (this.sendAcks) {
+      const ack: SnapshotAck = { seq: snapshot.seq, levelVersion: this.level.version, lane: this.lane, receiver: this.receiverId };
+      this.network.send({ type: 'SNAPSHOT_ACK', payload: ack });
+    }
+
+    // Arrived out of order: still a usable baseline, but too old to show
+    if (snapshot.seq <= this.latestSeq) return null;
+    this.latestSeq = snapshot.seq;
+
+    const state = frameToState(snapshot.frame);
+    return {
+      inputSeq: snapshot.inputSeq,
+      state: {
+        ...state,
+        events: [],
+        levelLength: this.levelLength,
+        level: placePlatforms(this.level.platforms, state.tick),
+        hazards: advanceHazards(this.level.hazards, state.tick),
+        checkpoints: this.level.checkpoints,
+        pickups: this.level.pickups,
+      },
+    };
+  }
+}
+
+// Hands decoded snapshots to a jitter buffer; the trapper view draws whatever
+// sample() returns each frame
+export class SnapshotReceiver {
+  private inbox: SnapshotInbox;
+  private buffer = new JitterBuffer();
+
+  constructor(network: NetworkAdapter, levelData: LevelData, sendAcks = true, lane = 0, receiverId?: string) {
+    this.inbox = new SnapshotInbox(network, levelData, sendAcks, lane, receiverId);
+  }
+
+  handleLevelUpdate(update: LevelUpdate) {
+    this.inbox.handleLevelUpdate(update);
+  }
+
+  handleSnapshot(data: ArrayBuffer, now: number) {
+    const snapshot = this.inbox.receive(data);
+    if (snapshot) this.buffer.push(snapshot.state, now);
+  }
+
+  // The state to draw at local time `now`, or null until the first snapshot lands
+  sample(now: number): GameState | null {
+    return this.buffer.sample(now);
+  }
+
+  getBufferStats(): JitterStats {
+    return this.buffer.getStats();
+  }
+}
@@ -0,0 +1,311 @@
+import { ArmingTrap, GameState, Platform, PlacedTrap, PlayerState, Point, TrapAction, TrapRejectReason, TrapTimers, TrapType, TrapperState, PLACED_TRAP_RADIUS, PLAYER_WIDTH, PLAYER_HEIGHT, TRAP_ENERGY_MAX, TRAP_ENERGY_REGEN } from '../types';
+import { supportsCheckpoint } from './checkpoints';
+import { nextRandom } from './rng';
+
+// ---------------------------------------------------------
+// TRAP DEFINITIONS
+// ---------------------------------------------------------
+// The one place a trap is described. The simulation, the runner's HUD and
+// the trapper's buttons all read from this table.
+
+export interface TrapDefinition {
+  label: string;
+  icon: string;
+  cost: number; // Trapper energy spent to use it
+  cooldown: number; // ms before the trapper can use it again
+  duration: number; // ms the effect stays on the runner (0 = instant)
+  armDelay: number; // ms of warning between the trap being sprung and it going off
+  blastRadius?: number; // Only hits if the runner is still this close to where it was aimed
+  needsPlatform: boolean; // Acts on a platform rather than on the runner
+  warning?: string; // Runner HUD text while the effect is active
+  // `platform` is the platform the trap was aimed at, if any
+  apply: (state: GameState, platform: Platform | undefined) => GameState;
+}
+
+const SHIFT_DISTANCE = 80;
+const WIND_HEADWIND_CHANCE = 0.7;
+
+const withPlayer = (state: GameState, changes: Partial<PlayerState>): GameState => ({
+  ...state,
+  player: { ...state.player, ...changes },
+});
+
+// Platforms holding a checkpoint are off limits so a respawn always has ground under it
+const canAlter = (state: GameState, platform: Platform | undefined): platform is Platform =>
+  !!platform && !supportsCheckpoint(platform, state.checkpoints);
+
+export const TRAP_DEFINITIONS: Record<TrapType, TrapDefinition> = {
+  [TrapType.BOMB]: {
+    label: 'BOMB',
+    icon: '💣',
+    cost: 25,
+    cooldown: 3000,
+    duration: 0,
+    armDelay: 700,
+    blastRadius: 90,
+    needsPlatform: false,
+    apply: (state) => {
+      const [roll, rngState] = nextRandom(state.rngState);
+      return {
+        ...withPlayer(state, { vx: roll > 0.5 ? 12 : -12, vy: -12, isGrounded: false }),
+        rngState,
+      };
+    },
+  },
+  [TrapType.CRACK]: {
+    label: 'CRACK',
+    icon: '🔨',
+    cost: 35,
+    cooldown: 5000,
+    duration: 0,
+    armDelay: 900,
+    needsPlatform: true,
+    apply: (state, platform) => {
+      if (!canAlter(state, platform)) return state;
+      return { ...state, level: state.level.filter(pl => pl.id !== platform.id) };
+    },
+  },
+  [TrapType.REVERSE]: {
+    label: 'REVERSE',
+    icon: '😵',
+    cost: 40,
+    cooldown: 8000,
+    duration: 3000,
+    armDelay: 500,
+    needsPlatform: false,
+    warning: '⚠ CONTROLS REVERSED ⚠',
+    apply: (state) => state,
+  },
+  [TrapType.FREEZE]: {
+    label: 'FREEZE',
+    icon: '🧊',
+    cost: 45,
+    cooldown: 9000,
+    duration: 1200,
+    armDelay: 600,
+    needsPlatform: false,
+    warning: '❄ FROZEN ❄',
+    apply: (state) => withPlayer(state, { vx: 0 }),
+  },
+  [TrapType.WIND]: {
+    label: 'WIND',
+    icon: '🌪️',
+    cost: 30,
+    cooldown: 7000,
+    duration: 3500,
+    armDelay: 500,
+    needsPlatform: false,
+    warning: '≋ WIND GUST ≋',
+    apply: (state) => {
+      const [roll, rngState] = nextRandom(state.rngState);
+      return {
+        ...withPlayer(state, { windDirection: roll < WIND_HEADWIND_CHANCE ? -1 : 1 }),
+        rngState,
+      };
+    },
+  },
+  [TrapType.GRAVITY_FLIP]: {
+    label: 'GRAVITY',
+    icon: '🙃',
+    cost: 60,
+    cooldown: 12000,
+    duration: 2500,
+    armDelay: 800,
+    needsPlatform: false,
+    warning: '⇅ GRAVITY INVERTED ⇅',
+    apply: (state) => withPlayer(state, { isGrounded: false, groundId: null }),
+  },
+  [TrapType.BLACKOUT]: {
+    label: 'BLACKOUT',
+    icon: '🌑',
+    cost: 50,
+    cooldown: 10000,
+    duration: 4000,
+    armDelay: 600,
+    needsPlatform: false,
+    apply: (state) => state,
+  },
+  [TrapType.SHIFT]: {
+    label: 'SHIFT',
+    icon: '↔️',
+    cost: 30,
+    cooldown: 6000,
+    duration: 0,
+    armDelay: 900,
+    needsPlatform: true,
+    apply: (state, platform) => {
+      if (!canAlter(state, platform)) return state;
+      const [roll, rngState] = nextRandom(state.rngState);
+      const dx = roll > 0.5 ? SHIFT_DISTANCE : -SHIFT_DISTANCE;
+      const level = state.level.map(pl =>
+        pl.id === platform.id
+          ? { ...pl, x: pl.x + dx, path: pl.path?.map(pt => ({ x: pt.x + dx, y: pt.y })) }
+          : pl
+      );
+      return { ...state, level, rngState };
+    },
+  },
+};
+
+export const TRAP_TYPES = Object.keys(TRAP_DEFINITIONS) as TrapType[];
+
+export const hasEffect = (player: PlayerState, type: TrapType): boolean =>
+  (player.effects[type] ?? 0) > 0;
+
+// Count every timer down by `dt` ms, dropping the ones that ran out
+const tickTimers = (timers: TrapTimers, dt: number): TrapTimers => {
+  const next: TrapTimers = {};
+  for (const type of Object.keys(timers) as TrapType[]) {
+    const remaining = (timers[type] ?? 0) - dt;
+    if (remaining > 0) next[type] = remaining;
+  }
+  return next;
+};
+
+export const tickEffects = (player: PlayerState, dt: number): PlayerState => ({
+  ...player,
+  effects: tickTimers(player.effects, dt),
+});
+
+// The platform the runner is standing on, if any
+export const platformUnder = (p: PlayerState, level: Platform[]): Platform | undefined => {
+  if (p.groundId) return level.find(plat => plat.id === p.groundId);
+  const feetY = p.y + PLAYER_HEIGHT;
+  return level.find(plat =>
+    p.x < plat.x + plat.width &&
+    p.x + PLAYER_WIDTH > plat.x &&
+    feetY >= plat.y && feetY <= plat.y + 10
+  );
+};
+
+// Set the trap off. `platformId` is the platform that platform traps act on
+// (resolved when the trap was armed).
+export const applyTrap = (state: GameState, type: TrapType, platformId: string | null): GameState => {
+  if (state.player.invulnerableTimer > 0) return state;
+
+  // A raised shield eats the whole trap and drops
+  if (state.player.abilities.shieldActive) {
+    return withPlayer(state, { abilities: { ...state.player.abilities, shieldActive: false } });
+  }
+
+  const def = TRAP_DEFINITIONS[type];
+  const platform = platformId ? state.level.find(pl => pl.id === platformId) : undefined;
+  const next = def.apply(state, platform);
+
+  if (def.duration === 0) return next;
+  return withPlayer(next, { effects: { ...next.player.effects, [type]: def.duration } });
+};
+
+// ---------------------------------------------------------
+// TELEGRAPHING
+// ---------------------------------------------------------
+// Sprung traps wait out their arm delay before going off, giving the runner
+// time to see the warning and react (move away, raise the shield).
+
+// Aim at the runner's current spot and the platform underfoot
+export const armTrapOnRunner = (state: GameState, id: string, type: TrapType): GameState => {
+  const { player } = state;
+  const platform = TRAP_DEFINITIONS[type].needsPlatform ? platformUnder(player, state.level) : undefined;
+  return armTrap(state, {
+    id,
+    type,
+    x: player.x + PLAYER_WIDTH / 2,
+    y: player.y + PLAYER_HEIGHT / 2,
+    platformId: platform?.id ?? null,
+  });
+};
+
+export const armTrap = (state: GameState, trap: Omit<ArmingTrap, 'remaining'>): GameState => ({
+  ...state,
+  armingTraps: [...state.armingTraps, { ...trap, remaining: TRAP_DEFINITIONS[trap.type].armDelay }],
+});
+
+const isInBlast = (state: GameState, trap: ArmingTrap): boolean => {
+  const radius = TRAP_DEFINITIONS[trap.type].blastRadius;
+  if (radius === undefined) return true;
+  const { player } = state;
+  return Math.hypot(trap.x - (player.x + PLAYER_WIDTH / 2), trap.y - (player.y + PLAYER_HEIGHT / 2)) <= radius;
+};
+
+export const tickArmingTraps = (state: GameState, dt: number): GameState => {
+  if (state.armingTraps.length === 0) return state;
+
+  const ticked = state.armingTraps.map(t => ({ ...t, remaining: t.remaining - dt }));
+  const due = ticked.filter(t => t.remaining <= 0);
+  const armingTraps = ticked.filter(t => t.remaining > 0);
+
+  return due.reduce(
+    (s, trap) => (isInBlast(s, trap) ? applyTrap(s, trap.type, trap.platformId) : s),
+    { ...state, armingTraps }
+  );
+};
+
+// ---------------------------------------------------------
+// TRAP ECONOMY
+// ---------------------------------------------------------
+// The runner's simulation is the authority: a trap request is only applied
+// if the synced trapper budget allows it.
+
+export const tickTrapper = (trapper: TrapperState, dt: number): TrapperState => ({
+  energy: Math.min(TRAP_ENERGY_MAX, trapper.energy + TRAP_ENERGY_REGEN * dt / 1000),
+  cooldowns: tickTimers(trapper.cooldowns, dt),
+});
+
+export const isOnCooldown = (trapper: TrapperState, type: TrapType): boolean =>
+  (trapper.cooldowns[type] ?? 0) > 0;
+
+export const canAfford = (trapper: TrapperState, type: TrapType): boolean =>
+  trapper.energy >= TRAP_DEFINITIONS[type].cost;
+
+export const validateTrap = (state: GameState, action: TrapAction): TrapRejectReason | null => {
+  if (!TRAP_DEFINITIONS[action.type]) return 'UNKNOWN_TRAP';
+  if (isOnCooldown(state.trapper, action.type)) return 'COOLDOWN';
+  if (!canAfford(state.trapper, action.type)) return 'ENERGY';
+  if (action.position && !canPlaceTrap(action.type, state.level, action.position)) return 'INVALID_PLACEMENT';
+  return null;
+};
+
+export const chargeTrap = (trapper: TrapperState, type: TrapType): TrapperState => ({
+  energy: trapper.energy - TRAP_DEFINITIONS[type].cost,
+  cooldowns: { ...trapper.cooldowns, [type]: TRAP_DEFINITIONS[type].cooldown },
+});
+
+// ---------------------------------------------------------
+// TRAP PLACEMENT
+// ---------------------------------------------------------
+
+// How far above a platform's top a click still counts as "on" that platform
+const SNAP_DISTANCE = 40;
+
+// The platform a point sits on or inside, if any
+export const platformAt = (level: Platform[], point: Point): Platform | undefined =>
+  level.find(p =>
+    point.x >= p.x && point.x <= p.x + p.width &&
+    point.y >= p.y - SNAP_DISTANCE && point.y <= p.y + p.height
+  );
+
+// Platform traps need something to act on; everything else can go anywhere
+export const canPlaceTrap = (type: TrapType, level: Platform[], point: Point): boolean =>
+  !TRAP_DEFINITIONS[type].needsPlatform || !!platformAt(level, point);
+
+// Turn a positioned trap request into an armed trap, or null if the spot is invalid.
+// Traps on a platform are snapped onto its surface so they sit where the runner walks.
+export const placeTrap = (action: TrapAction, level: Platform[]): PlacedTrap | null => {
+  if (!action.position) return null;
+  if (!canPlaceTrap(action.type, level, action.position)) return null;
+
+  const plat = platformAt(level, action.position);
+  return {
+    id: action.id,
+    type: action.type,
+    x: action.position.x,
+    y: plat ? plat.y - PLAYER_HEIGHT / 2 : action.position.y,
+    platformId: TRAP_DEFINITIONS[action.type].needsPlatform && plat ? plat.id : null,
+  };
+};
+
+export const isTrapTriggered = (trap: PlacedTrap, playerX: number, playerY: number): boolean => {
+  const cx = playerX + PLAYER_WIDTH / 2;
+  const cy = playerY + PLAYER_HEIGHT / 2;
+  return Math.hypot(trap.x - cx, trap.y - cy) <= PLACED_TRAP_RADIUS;
+};
@@ -1,48 +1,184 @@
-export type Role = 'RUNNER' | 'TRAPPER' | null;
+// SPECTATOR: watches the lobby and the match, never sends anything that changes them
+export type Role = 'RUNNER' | 'TRAPPER' | 'SPECTATOR' | null;
 
 export interface Point {
   x: number;
   y: number;
 }
 
-export interface Platform {
-  id: string;
+export interface Rect {
   x: number;
   y: number;
   width: number;
   height: number;
 }
 
+export type PlatformKind = 'STATIC' | 'MOVING' | 'CRUMBLING' | 'BOUNCY' | 'ICE' | 'ONE_WAY';
+
+export interface Platform extends Rect {
+  id: string;
+  kind?: PlatformKind; // Defaults to STATIC
+  // MOVING: waypoints (top-left corner) walked back and forth at `speed` px per tick
+  path?: Point[];
+  speed?: number;
+  // CRUMBLING: ms between the first touch and the platform falling away
+  crumbleDelay?: number;
+  crumbleTimer?: number; // Runtime: counts down once triggered
+  // BOUNCY: fraction of the landing speed returned as upward velocity
+  restitution?: number;
+  // ICE: 0..1, how quickly the runner's speed follows their input (1 = instant)
+  friction?: number;
+}
+
+export type HazardKind = 'SPIKES' | 'LAVA' | 'CRUSHER';
+
+// Touching a hazard costs a revive
+export interface Hazard extends Rect {
+  id: string;
+  kind: HazardKind;
+  // CRUSHER: waypoints (top-left corner) walked back and forth at `speed` px per tick
+  path?: Point[];
+  speed?: number;
+}
+
+// Touching one makes it the active respawn point. The rect is the trigger area;
+// the runner respawns standing on its bottom edge.
+export interface Checkpoint extends Rect {
+  id: string;
+}
+
+export type PickupKind = 'RECHARGE' | 'EXTRA_REVIVE';
+
+// Collected by touching it. (x, y) is the center.
+export interface Pickup {
+  id: string;
+  kind: PickupKind;
+  x: number;
+  y: number;
+}
+
+// Everything a level generator produces
+export interface LevelData {
+  platforms: Platform[];
+  hazards: Hazard[];
+  checkpoints: Checkpoint[];
+  pickups: Pickup[];
+  length?: number; // px to the finish line (default LEVEL_LENGTH)
+  code?: string; // Procedural levels: the level code that builds it again (see services/levelGen.ts)
+}
+
+// Runner counterplay. All timers in ms.
+export interface RunnerAbilities {
+  dashTimer: number; // > 0 while dashing
+  dashCooldown: number;
+  shieldCooldown: number;
+  shieldActive: boolean; // Absorbs the next trap
+}
+
 export interface PlayerState {
   x: number;
   y: number;
   vx: number;
   vy: number;
   isGrounded: boolean;
+  groundId: string | null; // Platform currently stood on
   isDead: boolean;
-  controlsReversed: boolean;
-  reverseTimer: number;
+  facing: number; // -1 or 1, last horizontal input direction
+  abilities: RunnerAbilities;
+  effects: TrapTimers; // ms left on each active trap effect
+  windDirection: number; // -1 or 1 while WIND is active
+  invulnerableTimer: number; // ms of trap immunity left after a respawn
 }
 
 export interface GameState {
   isPlaying: boolean;
   gameStatus: 'IDLE' | 'PLAYING' | 'WON' | 'LOST';
   level: Platform[];
+  hazards: Hazard[];
+  checkpoints: Checkpoint[];
+  activeCheckpointId: string | null;
+  pickups: Pickup[];
+  placedTraps: PlacedTrap[];
+  armingTraps: ArmingTrap[];
+  trapper: TrapperState;
+  events: SimEvent[];
   player: PlayerState;
   revives: number;
   timeElapsed: number;
   levelLength: number;
+  // Simulation bookkeeping: number of fixed ticks run so far and the RNG state
+  tick: number;
+  rngState: number;
+}
+
+// Sampled once per simulation tick on the runner's machine
+export interface RunnerInput {
+  left: boolean;
+  right: boolean;
+  jump: boolean;
+  dash: boolean;
+  shield: boolean;
 }
 
 export enum TrapType {
   BOMB = 'BOMB',
   CRACK = 'CRACK',
   REVERSE = 'REVERSE',
+  FREEZE = 'FREEZE',
+  WIND = 'WIND',
+  GRAVITY_FLIP = 'GRAVITY_FLIP',
+  BLACKOUT = 'BLACKOUT',
+  SHIFT = 'SHIFT',
+}
+
+// ms left per trap type (effects on the runner, cooldowns for the trapper)
+export type TrapTimers = Partial<Record<TrapType, number>>;
+
+// The trapper's budget. Lives in GameState so the runner can enforce it.
+export interface TrapperState {
+  energy: number;
+  cooldowns: TrapTimers;
 }
 
+export type TrapRejectReason = 'UNKNOWN_TRAP' | 'COOLDOWN' | 'ENERGY' | 'INVALID_PLACEMENT';
+
+export interface TrapRejection {
+  trapId: string;
+  trapType: TrapType;
+  reason: TrapRejectReason;
+}
+
+// Things that happened during the last simulation tick, for the app layer to report
+export type SimEvent =
+  | ({ kind: 'TRAP_REJECTED' } & TrapRejection);
+
 export interface TrapAction {
+  id: string;
   type: TrapType;
   timestamp: number;
+  // World coordinates picked on the trapper's minimap. Without a position the
+  // trap hits the runner immediately, wherever they are.
+  position?: Point;
+  lane?: number; // Races: the runner it's meant for (default 0)
+}
+
+// A trap counting down to detonation. Both players see it coming.
+export interface ArmingTrap {
+  id: string;
+  type: TrapType;
+  remaining: number; // ms until it goes off
+  x: number; // Where it was aimed (world coordinates)
+  y: number;
+  platformId: string | null; // CRACK/SHIFT: the platform it acts on
+}
+
+// A trap armed at a spot in the level, waiting for the runner to reach it
+export interface PlacedTrap {
+  id: string;
+  type: TrapType;
+  x: number;
+  y: number;
+  platformId: string | null; // CRACK/SHIFT: the platform it acts on
 }
 
 export interface ChatMessage {
@@ -52,33 +188,237 @@ export interface ChatMessage {
   timestamp: number;
 }
 
-// UDP_P2P uses the Server for signaling (TCP) then switches to WebRTC (UDP) for data
-export type ConnectionMode = 'LOCAL' | 'UDP_P2P'; 
+// UDP_P2P uses the Server for signaling (TCP) then switches to WebRTC (UDP) for data.
+// WS_RELAY is its fallback when WebRTC can't connect: game data stays on the TCP
+// socket and the server passes it on.
+// MATCH_SERVER: the room server runs the simulation, both clients only send
+// inputs and trap requests (see services/matchHost.ts)
+export type ConnectionMode = 'LOCAL' | 'UDP_P2P' | 'WS_RELAY' | 'MATCH_SERVER';
 export type AppScreen = 'MENU' | 'CONNECTION' | 'LOBBY' | 'GAME';
 
 export const GRAVITY = 0.6;
 export const JUMP_FORCE = -12;
 export const MOVE_SPEED = 5;
 export const MAX_FALL_SPEED = 15;
+export const WIND_FORCE = 2.5; // Horizontal px per tick added by the WIND trap
+export const PLAYER_WIDTH = 32;
+export const PLAYER_HEIGHT = 48;
+export const CHECKPOINT_WIDTH = 24;
+export const CHECKPOINT_HEIGHT = 80;
+export const RESPAWN_INVULNERABILITY_MS = 2000;
+export const TRAP_ENERGY_MAX = 100;
+export const TRAP_ENERGY_START = 40;
+export const TRAP_ENERGY_REGEN = 8; // Per second
+export const PLACED_TRAP_RADIUS = 40; // Distance from the runner's center that sets off a placed trap
 export const LEVEL_LENGTH = 4000;
+export const SIM_TICK_RATE = 60; // Simulation ticks per second
+export const SIM_TICK_MS = 1000 / SIM_TICK_RATE;
+export const SNAPSHOT_RATE = 20; // Runner state snapshots sent to the trapper per second
+export const MAX_RUNNERS = 4; // Per race, see GameStart.runners
 
 // Network Internal Types
-export type MessageType = 
-  | 'PING' 
-  | 'JOIN_LOBBY' 
-  | 'ACK_JOIN' 
-  | 'CHAT_MSG' 
-  | 'START_GAME' 
-  | 'STATE_UPDATE' 
-  | 'TRAP_TRIGGER'
+
+// Both sides announce this in JOIN_LOBBY / ACK_JOIN. Builds with different
+// versions refuse to pair instead of misreading each other's messages.
+export interface Hello {
+  protocolVersion: number;
+  clientId?: string; // Race line-ups list runners by it (see GameStart)
+}
+
+// Payload carried by each message type; `undefined` means none. Incoming
+// messages are checked against these shapes, see services/protocol.ts.
+export interface MessagePayloads {
+  PING: LinkProbe | undefined; // undefined: the data channel wake-up
+  PONG: LinkProbe;
+  JOIN_LOBBY: Hello | undefined; // undefined: a build from before versioning
+  ACK_JOIN: Hello | undefined;
+  CHAT_MSG: ChatMessage;
+  START_GAME: GameStart;
+  SNAPSHOT: ArrayBuffer; // Binary runner state, see services/snapshot.ts
+  SNAPSHOT_ACK: SnapshotAck;
+  LEVEL_UPDATE: LevelUpdate;
+  TRAP_TRIGGER: TrapAction;
+  TRAP_REJECTED: TrapRejection;
+  RESUME_REQUEST: ResumeRequest;
+  RESUME_STATE: ResumeState;
+  RESUME_REJECTED: ResumeRequest;
+  WATCH_REQUEST: undefined; // A spectator that came in mid-run asks for the full state
+  RUNNER_INPUT: InputBatch; // Match server mode only
+  ROUND_RESULT: Series; // A series round is over: the runner's tally with it recorded
   // Signaling Messages
-  | 'SIGNAL_OFFER'
-  | 'SIGNAL_ANSWER'
-  | 'SIGNAL_ICE';
+  CREATE_ROOM: RoomOptions | undefined;
+  ROOM_CREATED: RoomInfo;
+  JOIN_ROOM: JoinRoom;
+  ROOM_JOINED: RoomInfo;
+  ROOM_ERROR: RoomError;
+  PEER_JOINED: PeerInfo; // Someone joined our room: everyone already in it offers to them
+  PEER_LEFT: PeerInfo;
+  SIGNAL_OFFER: RTCSessionDescriptionInit;
+  SIGNAL_ANSWER: RTCSessionDescriptionInit;
+  SIGNAL_ICE: RTCIceCandidateInit;
+}
+
+export type MessageType = keyof MessagePayloads;
+
+// `from` is stamped by the room server on everything it relays, `to` limits a
+// signaling message to one peer of the room
+export type MessageOf<K extends MessageType> = { type: K; role?: Role; from?: string; to?: string } &
+  (undefined extends MessagePayloads[K] ? { payload?: MessagePayloads[K] } : { payload: MessagePayloads[K] });
+
+// Discriminated on `type`: switching on it narrows the payload
+export type NetworkMessage = { [K in MessageType]: MessageOf<K> }[MessageType];
+
+// RELIABLE messages must arrive, in order (a lost START_GAME or TRAP_TRIGGER
+// breaks the match). UNRELIABLE ones are superseded by the next one anyway,
+// so they take the fast lossy path.
+export type DeliveryClass = 'RELIABLE' | 'UNRELIABLE';
+
+export const MESSAGE_DELIVERY: Record<MessageType, DeliveryClass> = {
+  PING: 'UNRELIABLE',
+  PONG: 'UNRELIABLE',
+  JOIN_LOBBY: 'UNRELIABLE', // Repeated as a heartbeat
+  ACK_JOIN: 'UNRELIABLE',
+  CHAT_MSG: 'RELIABLE',
+  START_GAME: 'RELIABLE',
+  SNAPSHOT: 'UNRELIABLE',
+  SNAPSHOT_ACK: 'UNRELIABLE',
+  LEVEL_UPDATE: 'RELIABLE',
+  TRAP_TRIGGER: 'RELIABLE',
+  TRAP_REJECTED: 'RELIABLE',
+  RESUME_REQUEST: 'RELIABLE',
+  RESUME_STATE: 'RELIABLE',
+  RESUME_REJECTED: 'RELIABLE',
+  WATCH_REQUEST: 'RELIABLE',
+  RUNNER_INPUT: 'RELIABLE', // Every input counts: the server can't guess a missing one
+  ROUND_RESULT: 'RELIABLE',
+  // Signaling goes over the signaling server, never the data channels
+  CREATE_ROOM: 'RELIABLE',
+  ROOM_CREATED: 'RELIABLE',
+  JOIN_ROOM: 'RELIABLE',
+  ROOM_JOINED: 'RELIABLE',
+  ROOM_ERROR: 'RELIABLE',
+  PEER_JOINED: 'RELIABLE',
+  PEER_LEFT: 'RELIABLE',
+  SIGNAL_OFFER: 'RELIABLE',
+  SIGNAL_ANSWER: 'RELIABLE',
+  SIGNAL_ICE: 'RELIABLE',
+};
+
+// Consumed by the signaling layer; everything else on a signaling socket is
+// relayed game traffic
+export const SIGNALING_MESSAGES: ReadonlySet<MessageType> = new Set<MessageType>([
+  'CREATE_ROOM', 'ROOM_CREATED', 'JOIN_ROOM', 'ROOM_JOINED', 'ROOM_ERROR',
+  'PEER_JOINED', 'PEER_LEFT', 'SIGNAL_OFFER', 'SIGNAL_ANSWER', 'SIGNAL_ICE',
+]);
+
+// Signaling server rooms, see server.js
+// UNAVAILABLE: an authoritative room was asked for but the server can't run matches
+export type RoomErrorReason = 'NOT_FOUND' | 'FULL' | 'UNAVAILABLE';
 
-export interface NetworkMessage {
-  type: MessageType;
-  payload?: any;
+export interface RoomOptions {
+  authoritative?: boolean; // The server runs the match instead of the runner
+}
+
+export interface RoomInfo {
+  code: string;
+  authoritative?: boolean;
+}
+
+// Without a role the joiner takes whichever player seat is free
+export interface JoinRoom extends RoomInfo {
   role?: Role;
-  target?: Role;
+}
+
+// Another member of the room; `peerId` is assigned by the server
+export interface PeerInfo extends RoomInfo {
+  peerId: string;
+  role?: Role;
+}
+
+export interface RoomError extends RoomInfo {
+  reason: RoomErrorReason;
+}
+
+// A match is identified by its session ID so a trapper that lost the link
+// can rejoin the same run.
+//
+// Races: several runners each play their own run of the same level and seed,
+// the trapper harasses all of them. Each runner's run is its "lane", numbered
+// in the order of `runners`; everything sent about a run says which lane it's
+// for. A 1v1 match is a race of one, lane 0.
+export interface GameStart {
+  sessionId: string;
+  level: LevelData;
+  seed?: number; // So the runner can predict the match server's run, or every lane of a race is the same
+  runners?: string[]; // Races: the runners' client IDs (see Hello), in lane order
+  series?: Series; // Series: the tally so far; this is round `results.length + 1`
+}
+
+// Best-of-N between two players who swap roles every round, without leaving
+// the room. Whoever runs a round starts it and has the last word on how it
+// went: their tally goes out in ROUND_RESULT and again with the next
+// START_GAME, so both ends always show the same score (see services/series.ts).
+export interface Series {
+  id: string;
+  rounds: number; // N; odd, so somebody always wins
+  players: string[]; // Both client IDs (see Hello); players[0] runs the odd rounds
+  results: RoundResult[]; // Rounds played so far, in order
+}
+
+export interface RoundResult {
+  round: number; // From 1
+  status: 'WON' | 'LOST'; // How the runner's run ended
+  time: number; // s
+  revivesUsed: number;
+}
+
+export interface ResumeRequest {
+  sessionId: string;
+}
+
+// Everything the trapper needs to pick the run back up
+export interface ResumeState {
+  sessionId: string;
+  state: GameState;
+  lane?: number;
+}
+
+// Level contents after a structural change (crack, shift, crumble, pickup taken).
+// `version` counts changes so the trapper can tell it has fallen behind.
+export interface LevelUpdate extends LevelData {
+  version: number;
+  lane?: number;
+}
+
+// Echoed back untouched in PONG, so RTT needs no clock sync
+export interface LinkProbe {
+  seq: number;
+  sentAt: number;
+}
+
+// The runner's inputs in match server mode, numbered so the server can say
+// (in each snapshot) which ones it has applied
+export interface InputFrame {
+  seq: number;
+  input: RunnerInput;
+}
+
+export interface InputBatch {
+  frames: InputFrame[];
+}
+
+export interface SnapshotAck {
+  seq: number;
+  levelVersion: number;
+  lane?: number;
+  receiver?: string; // Who acks, when a stream has several receivers (races)
+}
+
+// Raw traffic counters kept by every adapter
+export interface TrafficStats {
+  bytesSent: number;
+  bytesReceived: number;
+  messagesSent: number;
+  messagesReceived: number;
+  malformed: number; // Incoming messages dropped for failing validation
 }
\ No newline at end of file